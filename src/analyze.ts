@@ -0,0 +1,27 @@
+import { LoxError } from "./core/error";
+import { parsePartialAst } from "./parser";
+import { resolvePartialAst, type ResolverOptions } from "./resolver";
+import { scanTokens } from "./scanner";
+
+/**
+ * Scans, parses and resolves the source. Each phase goes on past the errors
+ * it finds, so one run reports the problems of all three.
+ * @throws {LoxError} with the syntax errors, then the resolver errors
+ */
+export function analyze(source: string, options?: ResolverOptions) {
+    const tokens = scanTokens(source, options?.file ?? null);
+    const { statements, errors } = parsePartialAst(tokens);
+    const resolved = resolvePartialAst(statements, options);
+
+    const syntaxErrors: LoxError[] = [...errors];
+    if (resolved.errors.length > 0) {
+        const resolverError = new LoxError("Resolver error", resolved.errors);
+        if (syntaxErrors.length === 0) throw resolverError;
+        syntaxErrors.push(resolverError);
+    }
+    if (syntaxErrors.length > 0) {
+        throw new LoxError("Syntax error", syntaxErrors);
+    }
+
+    return { statements, locals: resolved.locals, warnings: resolved.warnings };
+}
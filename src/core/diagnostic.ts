@@ -0,0 +1,73 @@
+/**
+ * Stable codes for every kind of problem BunLox reports, grouped by the
+ * phase that finds them: 1xxx scanning, 2xxx parsing, 3xxx resolving and
+ * 4xxx running.
+ */
+export const CODES = {
+    unknown: "LOX0001",
+
+    unexpectedCharacter: "LOX1001",
+    unterminatedString: "LOX1002",
+    unterminatedComment: "LOX1003",
+    invalidEscape: "LOX1004",
+    invalidNumber: "LOX1005",
+
+    expectedToken: "LOX2001",
+    invalidTarget: "LOX2002",
+    tooManyArguments: "LOX2003",
+    invalidParameter: "LOX2004",
+
+    duplicateDeclaration: "LOX3001",
+    selfReference: "LOX3002",
+    constantAssignment: "LOX3003",
+    invalidReturn: "LOX3004",
+    invalidYield: "LOX3005",
+    invalidAsync: "LOX3006",
+    invalidJump: "LOX3007",
+    invalidClassKeyword: "LOX3008",
+    invalidModuleStatement: "LOX3009",
+    missingExport: "LOX3010",
+    nonExhaustiveMatch: "LOX3101",
+
+    runtimeError: "LOX4001",
+    stackOverflow: "LOX4002",
+    uncaughtThrow: "LOX4003",
+} as const;
+
+export type DiagnosticCode = (typeof CODES)[keyof typeof CODES];
+
+export type Severity = "error" | "warning";
+
+/** A secondary message, optionally pointing at another place in the source. */
+export interface DiagnosticNote {
+    message: string;
+    line: number | null;
+    column: number | null;
+}
+
+/**
+ * A problem found in a program, in a shape editors and CI can consume.
+ * Lines and columns are 1-based; the end is exclusive. Positions are `null`
+ * when the problem has no source to point at.
+ */
+export interface Diagnostic {
+    code: DiagnosticCode;
+    severity: Severity;
+    message: string;
+    file: string | null;
+    line: number;
+    column: number | null;
+    endLine: number;
+    endColumn: number | null;
+    notes: DiagnosticNote[];
+}
+
+/** The 1-based line and column of an offset into the source. */
+export function locate(source: string, offset: number) {
+    const before = source.slice(0, offset);
+    const lineStart = before.lastIndexOf("\n") + 1;
+    return {
+        line: before.split("\n").length,
+        column: offset - lineStart + 1,
+    };
+}
@@ -1,30 +1,27 @@
 import { runtimeError } from "./error";
-import { createCallable, type Literal } from "./literal";
+import type { Literal } from "./literal";
+import { defineNatives } from "./natives";
 import type { Token } from "./token";
 
 export interface Environment {
     enclosing: Environment | null;
     global: Environment | null;
     values: Map<string, Literal>;
+    /** Names in `values` that were declared with `const`. */
+    constants: Set<string>;
 
-    define: (name: Token, value: Literal) => void;
+    define: (name: Token, value: Literal, constant?: boolean) => void;
     get: (name: Token, distance?: number) => Literal;
     assign: (name: Token, value: Literal, distance?: number) => void;
 }
 
-function defineGlobals(values: Map<string, Literal>) {
-    values.set(
-        "clock",
-        createCallable(0, () => Date.now() / 1000)
-    );
-}
-
 export function createEnvironment(
     enclosing: Environment | null = null
 ): Environment {
     const values = new Map<string, Literal>();
+    const constants = new Set<string>();
 
-    if (!enclosing) defineGlobals(values);
+    if (!enclosing) defineNatives(values);
 
     const global = !enclosing ? null : enclosing.global ?? enclosing;
 
@@ -46,13 +43,15 @@ export function createEnvironment(
         return environment;
     };
 
-    const define: Environment["define"] = (name, value) => {
+    const define: Environment["define"] = (name, value, constant = false) => {
         if (enclosing && values.has(name.lexeme)) {
             const message = `Variable '${name.lexeme}' has already been declared.`;
             throw runtimeError(name, message);
         }
 
         values.set(name.lexeme, value);
+        if (constant) constants.add(name.lexeme);
+        else constants.delete(name.lexeme);
     };
 
     const get: Environment["get"] = (name, distance) => {
@@ -66,15 +65,32 @@ export function createEnvironment(
     };
 
     const assign: Environment["assign"] = (name, value, distance) => {
-        const targetValues =
-            (distance !== 0 && ancestor(distance)?.values) || values;
+        const target = (distance !== 0 && ancestor(distance)) || {
+            values,
+            constants,
+        };
 
-        if (!targetValues.has(name.lexeme)) {
+        if (!target.values.has(name.lexeme)) {
             throw runtimeError(name, `Undefined variable '${name.lexeme}'.`);
         }
 
-        targetValues.set(name.lexeme, value);
+        // The resolver rejects these within a program, but a REPL line can
+        // assign to a constant declared by an earlier one.
+        if (target.constants.has(name.lexeme)) {
+            const message = `Can't assign to constant '${name.lexeme}'.`;
+            throw runtimeError(name, message);
+        }
+
+        target.values.set(name.lexeme, value);
     };
 
-    return Object.freeze({ values, enclosing, global, define, get, assign });
+    return Object.freeze({
+        values,
+        constants,
+        enclosing,
+        global,
+        define,
+        get,
+        assign,
+    });
 }
@@ -1,37 +1,274 @@
-import type { Literal } from "./literal";
+import {
+    CODES,
+    locate,
+    type Diagnostic,
+    type DiagnosticCode,
+    type Severity,
+} from "./diagnostic";
+import type { Literal, LoxFunction } from "./literal";
 import { type Token } from "./token";
 
+/** A range of source text that an error points at. */
+export interface SourceRange {
+    source: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Quotes the source line holding the range and underlines the range on it,
+ * clipped to that line:
+ *
+ *     3 | print "a" - 1;
+ *       |           ^
+ */
+export function formatSnippet({ source, start, end }: SourceRange): string {
+    const lineStart = start > 0 ? source.lastIndexOf("\n", start - 1) + 1 : 0;
+    const newline = source.indexOf("\n", start);
+    const lineEnd = newline === -1 ? source.length : newline;
+    const lineNumber = String(source.slice(0, lineStart).split("\n").length);
+    const text = source.slice(lineStart, lineEnd).trimEnd();
+    // Keep tabs so the underline lines up however the terminal renders them.
+    const padding = source.slice(lineStart, start).replace(/[^\t]/g, " ");
+    const width = Math.max(1, Math.min(end, lineEnd) - start);
+    const gutter = " ".repeat(lineNumber.length);
+    return [
+        `${lineNumber} | ${text}`,
+        `${gutter} | ${padding}^${"~".repeat(width - 1)}`,
+    ].join("\n");
+}
+
+/** Appends the snippet for the range, if there's source to quote. */
+function withSnippet(message: string, range: SourceRange | null) {
+    if (range === null || range.source === "") return message;
+    return `${message}\n${formatSnippet(range)}`;
+}
+
+/** A second place in the source that helps explain an error. */
+export interface ErrorNote {
+    message: string;
+    token: Token;
+}
+
 export class LoxError extends Error {
-    constructor(message: string, nestedErrors: LoxError[] = []) {
+    /** The errors reported together under this one. */
+    errors: LoxError[];
+    /**
+     * The file the error, or the errors nested in it, come from when it
+     * may not be the one being run.
+     */
+    file: string | null;
+
+    constructor(
+        message: string,
+        nestedErrors: LoxError[] = [],
+        file: string | null = null
+    ) {
         const nestedErrorMessages = nestedErrors
             .map((error) => error.message)
             .join("");
         super(message + "\n" + nestedErrorMessages);
+        this.errors = nestedErrors;
+        this.file = file;
+    }
+
+    /** The nested errors as diagnostics, blaming `file` by default. */
+    toDiagnostics(file: string | null): Diagnostic[] {
+        const nestedFile = this.file ?? file;
+        if (this.errors.length === 0) {
+            return [
+                {
+                    code: CODES.unknown,
+                    severity: "error",
+                    message: this.message.trim(),
+                    file: nestedFile,
+                    line: 1,
+                    column: null,
+                    endLine: 1,
+                    endColumn: null,
+                    notes: [],
+                },
+            ];
+        }
+        return this.errors.flatMap((error) => error.toDiagnostics(nestedFile));
+    }
+}
+
+interface ErrorDetails {
+    code: DiagnosticCode;
+    severity: Severity;
+    /** The message without the line prefix. */
+    reason: string;
+    line: number;
+    range: SourceRange | null;
+    notes: ErrorNote[];
+}
+
+/**
+ * An error at a known place in the source. Its message quotes the source,
+ * and it converts to a single diagnostic.
+ */
+export class SourceError extends LoxError implements ErrorDetails {
+    code: DiagnosticCode;
+    severity: Severity;
+    reason: string;
+    line: number;
+    range: SourceRange | null;
+    notes: ErrorNote[];
+
+    constructor(header: string, details: ErrorDetails) {
+        const notes = details.notes.map(({ message, token }) =>
+            withSnippet(`note: ${message}`, token)
+        );
+        super([withSnippet(header, details.range), ...notes].join("\n"));
+        this.code = details.code;
+        this.severity = details.severity;
+        this.reason = details.reason;
+        this.line = details.line;
+        this.range = details.range;
+        this.notes = details.notes;
+    }
+
+    override toDiagnostics(file: string | null): Diagnostic[] {
+        const { line, range } = this;
+        const start = range?.source ? locate(range.source, range.start) : null;
+        const end = range?.source ? locate(range.source, range.end) : null;
+        return [
+            {
+                code: this.code,
+                severity: this.severity,
+                message: this.reason,
+                file: this.file ?? file,
+                line: start?.line ?? line,
+                column: start?.column ?? null,
+                endLine: end?.line ?? line,
+                endColumn: end?.column ?? null,
+                notes: this.notes.map(({ message, token }) => ({
+                    message,
+                    line: token.line,
+                    column: token.source === "" ? null : token.column,
+                })),
+            },
+        ];
+    }
+}
+
+export class SyntaxError extends SourceError {
+    constructor(
+        line: number,
+        message: string,
+        code: DiagnosticCode,
+        range: SourceRange | null = null
+    ) {
+        super(`[line ${line}] Error: ${message}`, {
+            code,
+            severity: "error",
+            reason: message,
+            line,
+            range,
+            notes: [],
+        });
     }
 }
 
-export class SyntaxError extends LoxError {
-    constructor(line: number, message: string) {
-        super(`[line ${line}] Error: ${message}`);
+type ParseDetails = Pick<ErrorDetails, "code" | "notes" | "range">;
+
+const where = (token: Token) =>
+    token.type === "EOF" ? " at end" : ` at '${token.lexeme}'`;
+
+export class ParseError extends SourceError {
+    constructor(token: Token, message: string, details: ParseDetails) {
+        super(`[line ${token.line}] Error${where(token)}: ${message}`, {
+            ...details,
+            severity: "error",
+            reason: message,
+            line: token.line,
+        });
     }
 }
 
-export class ParseError extends LoxError {
-    constructor(line: number, where: string, message: string) {
-        super(`[line ${line}] Error${where}: ${message}`);
+export class ParseWarning extends SourceError {
+    constructor(token: Token, message: string, details: ParseDetails) {
+        super(`[line ${token.line}] Warning${where(token)}: ${message}`, {
+            ...details,
+            severity: "warning",
+            reason: message,
+            line: token.line,
+        });
     }
 }
 
-export class RuntimeError extends LoxError {
+export class RuntimeError extends SourceError {
     token: Token;
+    /**
+     * The Lox calls in progress when the error was raised, innermost first,
+     * such as `fib (line 3)`. Empty for errors raised outside any function.
+     */
+    trace: string[] = [];
 
-    constructor(token: Token, message: string) {
-        super(`[line ${token.line}] Error: ${message}`);
+    constructor(
+        token: Token,
+        message: string,
+        code: DiagnosticCode = CODES.runtimeError,
+        range: SourceRange | null = token
+    ) {
+        super(`[line ${token.line}] Error: ${message}`, {
+            code,
+            severity: "error",
+            reason: message,
+            line: token.line,
+            range,
+            notes: [],
+        });
         this.token = token;
+        // Code from an imported module raises errors that reach the file
+        // being run.
+        this.file = token.file;
+    }
+
+    /** Adds the trace as notes, since it has no place of its own. */
+    override toDiagnostics(file: string | null): Diagnostic[] {
+        return super.toDiagnostics(file).map((diagnostic) => ({
+            ...diagnostic,
+            notes: [
+                ...diagnostic.notes,
+                ...this.trace.map((frame) => ({
+                    message: frame.startsWith("...") ? frame : `at ${frame}`,
+                    line: null,
+                    column: null,
+                })),
+            ],
+        }));
     }
 }
 
-export class ReturnError extends RuntimeError {
+/** A value thrown by a Lox `throw` statement. */
+export class ThrowError extends RuntimeError {
+    value: Literal;
+    constructor(token: Token, value: Literal, message: string) {
+        super(token, message, CODES.uncaughtThrow);
+        this.value = value;
+    }
+}
+
+/**
+ * Unwinds the interpreter for a `return`, `break` or `continue`. Signals
+ * are thrown on every one of those and never reported, so they skip the
+ * source snippet and the JS stack trace.
+ */
+abstract class Signal extends RuntimeError {
+    constructor(token: Token, message: string) {
+        const { stackTraceLimit } = Error;
+        Error.stackTraceLimit = 0;
+        try {
+            super(token, message, CODES.runtimeError, null);
+        } finally {
+            Error.stackTraceLimit = stackTraceLimit;
+        }
+    }
+}
+
+export class ReturnError extends Signal {
     value: Literal;
     constructor(token: Token, value: Literal) {
         super(token, "Illegal return statement.");
@@ -39,32 +276,124 @@ export class ReturnError extends RuntimeError {
     }
 }
 
-export class BreakError extends RuntimeError {
-    constructor(token: Token, message: string) {
+/**
+ * Ends a function body at a `return` whose value is a call in tail
+ * position. The function's caller makes the call in its place, so tail
+ * recursion doesn't grow the JS stack.
+ */
+export class TailCallError extends Signal {
+    callee: LoxFunction;
+    args: Literal[];
+    constructor(token: Token, callee: LoxFunction, args: Literal[]) {
+        super(token, "Illegal return statement.");
+        this.callee = callee;
+        this.args = args;
+    }
+}
+
+export class BreakError extends Signal {
+    /** The label of the loop to exit, or `null` for the innermost loop. */
+    label: string | null;
+    constructor(token: Token, message: string, label: string | null = null) {
         super(token, message);
+        this.label = label;
     }
 }
 
-export function syntaxError(line: number, message: string) {
-    return new SyntaxError(line, message);
+/**
+ * Thrown by native functions, which have no token of their own. The
+ * interpreter reports it as a `RuntimeError` at the call site.
+ */
+export class NativeError extends Error {}
+
+export class ContinueError extends Signal {
+    /** The label of the loop to continue, or `null` for the innermost loop. */
+    label: string | null;
+    constructor(token: Token, label: string | null = null) {
+        super(token, "Continue outside of loop.");
+        this.label = label;
+    }
+}
+
+export function syntaxError(
+    line: number,
+    message: string,
+    code: DiagnosticCode,
+    range: SourceRange | null = null
+) {
+    return new SyntaxError(line, message, code, range);
+}
+
+/**
+ * An error at the token. The snippet underlines `range` when given, such as
+ * the span of the node at fault, and the token otherwise.
+ */
+export function parseError(
+    token: Token,
+    message: string,
+    code: DiagnosticCode = CODES.expectedToken,
+    notes: ErrorNote[] = [],
+    range: SourceRange | null = null
+) {
+    return new ParseError(token, message, {
+        code,
+        notes,
+        range: range ?? token,
+    });
+}
+
+export function parseWarning(
+    token: Token,
+    message: string,
+    code: DiagnosticCode,
+    notes: ErrorNote[] = [],
+    range: SourceRange | null = null
+) {
+    return new ParseWarning(token, message, {
+        code,
+        notes,
+        range: range ?? token,
+    });
+}
+
+/** A runtime error at the token, underlining `range` like `parseError`. */
+export function runtimeError(
+    token: Token,
+    message: string,
+    code: DiagnosticCode = CODES.runtimeError,
+    range: SourceRange | null = null
+) {
+    return new RuntimeError(token, message, code, range ?? token);
 }
 
-export function parseError(token: Token, message: string) {
-    return new ParseError(
-        token.line,
-        token.type === "EOF" ? " at end" : ` at '${token.lexeme}'`,
-        message
-    );
+export function breakError(
+    token: Token,
+    message: string,
+    label: string | null = null
+) {
+    return new BreakError(token, message, label);
 }
 
-export function runtimeError(token: Token, message: string) {
-    return new RuntimeError(token, message);
+export function continueError(token: Token, label: string | null = null) {
+    return new ContinueError(token, label);
 }
 
-export function breakError(token: Token, message: string) {
-    return new BreakError(token, message);
+export function throwError(token: Token, value: Literal, message: string) {
+    return new ThrowError(token, value, message);
 }
 
 export function returnError(token: Token, value: Literal) {
     return new ReturnError(token, value);
 }
+
+export function tailCallError(
+    token: Token,
+    callee: LoxFunction,
+    args: Literal[]
+) {
+    return new TailCallError(token, callee, args);
+}
+
+export function nativeError(message: string) {
+    return new NativeError(message);
+}
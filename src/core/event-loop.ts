@@ -0,0 +1,82 @@
+import type { LoxPromise } from "./literal";
+
+/**
+ * Keeps count of the timers and async calls a program has started, so that
+ * the runner can wait for them and report the errors nothing caught.
+ */
+export interface EventLoop {
+    /** Runs the callback after `ms` milliseconds on a Bun timer. */
+    schedule(callback: () => void, ms: number): void;
+    /**
+     * Counts the promise as pending until it settles. If it fails and
+     * nothing has awaited it by the next turn of the loop, its error is
+     * uncaught.
+     */
+    track(promise: LoxPromise): void;
+    /**
+     * Resolves once nothing is pending, or rejects with the first uncaught
+     * error not reported yet.
+     */
+    drain(): Promise<void>;
+}
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+export function createEventLoop(): EventLoop {
+    let pending = 0;
+    const errors: unknown[] = [];
+    const waiters: Waiter[] = [];
+
+    const notify = () => {
+        if (waiters.length === 0) return;
+        if (errors.length === 0 && pending > 0) return;
+
+        const error = errors.shift();
+        for (const waiter of waiters.splice(0)) {
+            if (error === undefined) waiter.resolve();
+            else waiter.reject(error);
+        }
+    };
+
+    const finish = () => {
+        pending--;
+        notify();
+    };
+
+    const schedule: EventLoop["schedule"] = (callback, ms) => {
+        pending++;
+        setTimeout(() => {
+            try {
+                callback();
+            } catch (error) {
+                errors.push(error);
+            } finally {
+                finish();
+            }
+        }, ms);
+    };
+
+    const track: EventLoop["track"] = (promise) => {
+        pending++;
+        promise.result.then(finish, (error) => {
+            schedule(() => {
+                if (!promise.isAwaited()) throw error;
+            }, 0);
+            finish();
+        });
+    };
+
+    const drain: EventLoop["drain"] = () =>
+        new Promise((resolve, reject) => {
+            waiters.push({ resolve, reject });
+            notify();
+        });
+
+    return Object.freeze({ schedule, track, drain });
+}
+
+/** The event loop shared by the natives and the interpreter. */
+export const eventLoop = createEventLoop();
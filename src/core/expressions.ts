@@ -12,11 +12,22 @@ export interface GroupingExpr {
     expression: Expr;
 }
 
+export interface IncrementExpr {
+    type: "increment";
+    name: Token;
+    /** Either `++` or `--`. */
+    operator: Token;
+    /** Prefix forms evaluate to the updated value, postfix to the old one. */
+    prefix: boolean;
+}
+
 export interface CallExpr {
     type: "call";
     callee: Expr;
     paren: Token;
     args: Expr[];
+    /** `f?.()` evaluates to nil instead of calling a nil callee. */
+    optional: boolean;
 }
 
 export interface BinaryExpr {
@@ -26,6 +37,13 @@ export interface BinaryExpr {
     right: Expr;
 }
 
+export interface ConditionalExpr {
+    type: "conditional";
+    condition: Expr;
+    thenBranch: Expr;
+    elseBranch: Expr;
+}
+
 export interface LogicalExpr {
     type: "logical";
     left: Expr;
@@ -50,10 +68,157 @@ export interface AssignmentExpr {
     value: Expr;
 }
 
+export interface GetExpr {
+    type: "get";
+    object: Expr;
+    name: Token;
+    /** `a?.b` evaluates to nil instead of reading from a nil object. */
+    optional: boolean;
+}
+
+/**
+ * A chain of gets, calls and indexes with a `?.` link. When a `?.` link
+ * meets nil, the rest of the chain is skipped and the chain is nil.
+ */
+export interface OptionalChainExpr {
+    type: "optionalChain";
+    expression: Expr;
+}
+
+export interface SetExpr {
+    type: "set";
+    object: Expr;
+    name: Token;
+    value: Expr;
+}
+
+export interface ThisExpr {
+    type: "this";
+    keyword: Token;
+}
+
+export interface SuperExpr {
+    type: "super";
+    keyword: Token;
+    method: Token;
+}
+
+export interface InterpolationExpr {
+    type: "interpolation";
+    token: Token;
+    parts: Expr[];
+}
+
+export interface ListExpr {
+    type: "list";
+    elements: Expr[];
+}
+
+export interface MapEntry {
+    key: Expr;
+    value: Expr;
+}
+
+export interface MapExpr {
+    type: "map";
+    brace: Token;
+    entries: MapEntry[];
+}
+
+export interface IndexExpr {
+    type: "index";
+    object: Expr;
+    bracket: Token;
+    index: Expr;
+}
+
+export interface IndexSetExpr {
+    type: "indexSet";
+    object: Expr;
+    bracket: Token;
+    index: Expr;
+    value: Expr;
+}
+
+export interface LiteralPattern {
+    type: "literal";
+    value: Literal;
+}
+
+/** Matches numbers between `low` and `high`, both inclusive. */
+export interface RangePattern {
+    type: "range";
+    low: number;
+    high: number;
+}
+
+/** Matches any value and binds it to `name` inside the arm. */
+export interface BindingPattern {
+    type: "binding";
+    name: Token;
+}
+
+export interface WildcardPattern {
+    type: "wildcard";
+}
+
+export type Pattern =
+    | LiteralPattern
+    | RangePattern
+    | BindingPattern
+    | WildcardPattern;
+
+export interface MatchArm {
+    pattern: Pattern;
+    guard: Expr | null;
+    body: Expr;
+}
+
+export interface MatchExpr {
+    type: "match";
+    keyword: Token;
+    subject: Expr;
+    arms: MatchArm[];
+}
+
+export interface Parameter {
+    name: Token;
+    /** Evaluated at call time, in the function's scope, when omitted. */
+    defaultValue: Expr | null;
+    /** A `...name` parameter collects the remaining arguments in a list. */
+    rest: boolean;
+}
+
 export interface FunctionExpr {
     type: "anonymousFunction";
-    parameters: Token[];
+    parameters: Parameter[];
     body: Stmt[];
+    /** Whether the body yields, making calls return a generator. */
+    isGenerator: boolean;
+    /** Whether the function is `async`, making calls return a promise. */
+    isAsync: boolean;
+}
+
+export interface YieldExpr {
+    type: "yield";
+    keyword: Token;
+    value: Expr | null;
+}
+
+export interface AwaitExpr {
+    type: "await";
+    keyword: Token;
+    value: Expr;
+}
+
+/**
+ * Stands in for an expression the scanner couldn't read, so the rest of the
+ * program can still be parsed and resolved.
+ */
+export interface ErrorExpr {
+    type: "error";
+    /** The ERROR token, carrying the scanner's error. */
+    token: Token;
 }
 
 export type Expr =
@@ -62,20 +227,52 @@ export type Expr =
     | CallExpr
     | BinaryExpr
     | LogicalExpr
+    | ConditionalExpr
     | UnaryExpr
     | VariableExpr
     | AssignmentExpr
-    | FunctionExpr;
+    | IncrementExpr
+    | GetExpr
+    | OptionalChainExpr
+    | SetExpr
+    | ThisExpr
+    | SuperExpr
+    | InterpolationExpr
+    | ListExpr
+    | MapExpr
+    | IndexExpr
+    | IndexSetExpr
+    | MatchExpr
+    | FunctionExpr
+    | YieldExpr
+    | AwaitExpr
+    | ErrorExpr;
 
 export const binary = (left: Expr, operator: Token, right: Expr) =>
     ({ type: "binary", left, operator, right } satisfies BinaryExpr);
 
-export const call = (callee: Expr, paren: Token, args: Expr[]) =>
-    ({ type: "call", callee, paren, args } satisfies CallExpr);
+export const call = (
+    callee: Expr,
+    paren: Token,
+    args: Expr[],
+    optional = false
+) => ({ type: "call", callee, paren, args, optional } satisfies CallExpr);
 
 export const logical = (left: Expr, operator: Token, right: Expr) =>
     ({ type: "logical", left, operator, right } satisfies LogicalExpr);
 
+export const conditional = (
+    condition: Expr,
+    thenBranch: Expr,
+    elseBranch: Expr
+) =>
+    ({
+        type: "conditional",
+        condition,
+        thenBranch,
+        elseBranch,
+    } satisfies ConditionalExpr);
+
 export const grouping = (expression: Expr) =>
     ({ type: "grouping", expression } satisfies GroupingExpr);
 
@@ -91,5 +288,78 @@ export const variable = (name: Token) =>
 export const assignment = (name: Token, value: Expr) =>
     ({ type: "assignment", name, value } satisfies AssignmentExpr);
 
-export const functionExpr = (parameters: Token[], body: Stmt[]) =>
-    ({ type: "anonymousFunction", parameters, body } satisfies FunctionExpr);
+export const increment = (name: Token, operator: Token, prefix: boolean) =>
+    ({ type: "increment", name, operator, prefix } satisfies IncrementExpr);
+
+export const parameter = (
+    name: Token,
+    defaultValue: Expr | null = null,
+    rest = false
+) => ({ name, defaultValue, rest } satisfies Parameter);
+
+export const functionExpr = (
+    parameters: Parameter[],
+    body: Stmt[],
+    isGenerator = false,
+    isAsync = false
+) =>
+    ({
+        type: "anonymousFunction",
+        parameters,
+        body,
+        isGenerator,
+        isAsync,
+    } satisfies FunctionExpr);
+
+export const yieldExpr = (keyword: Token, value: Expr | null) =>
+    ({ type: "yield", keyword, value } satisfies YieldExpr);
+
+export const awaitExpr = (keyword: Token, value: Expr) =>
+    ({ type: "await", keyword, value } satisfies AwaitExpr);
+
+export const errorExpr = (token: Token) =>
+    ({ type: "error", token } satisfies ErrorExpr);
+
+export const get = (object: Expr, name: Token, optional = false) =>
+    ({ type: "get", object, name, optional } satisfies GetExpr);
+
+export const optionalChain = (expression: Expr) =>
+    ({ type: "optionalChain", expression } satisfies OptionalChainExpr);
+
+export const set = (object: Expr, name: Token, value: Expr) =>
+    ({ type: "set", object, name, value } satisfies SetExpr);
+
+export const thisExpr = (keyword: Token) =>
+    ({ type: "this", keyword } satisfies ThisExpr);
+
+export const superExpr = (keyword: Token, method: Token) =>
+    ({ type: "super", keyword, method } satisfies SuperExpr);
+
+export const interpolation = (token: Token, parts: Expr[]) =>
+    ({ type: "interpolation", token, parts } satisfies InterpolationExpr);
+
+export const list = (elements: Expr[]) =>
+    ({ type: "list", elements } satisfies ListExpr);
+
+export const map = (brace: Token, entries: MapEntry[]) =>
+    ({ type: "map", brace, entries } satisfies MapExpr);
+
+export const index = (object: Expr, bracket: Token, index: Expr) =>
+    ({ type: "index", object, bracket, index } satisfies IndexExpr);
+
+export const indexSet = (
+    object: Expr,
+    bracket: Token,
+    index: Expr,
+    value: Expr
+) =>
+    ({
+        type: "indexSet",
+        object,
+        bracket,
+        index,
+        value,
+    } satisfies IndexSetExpr);
+
+export const match = (keyword: Token, subject: Expr, arms: MatchArm[]) =>
+    ({ type: "match", keyword, subject, arms } satisfies MatchExpr);
@@ -1,21 +1,144 @@
 import { createEnvironment, type Environment } from "./environment";
-import { ReturnError } from "./error";
-import type { FunctionExpr } from "./expressions";
-import type { FunctionStmt } from "./statements";
+import { nativeError, ReturnError, runtimeError, TailCallError } from "./error";
+import type { Expr, FunctionExpr } from "./expressions";
+import type { FunctionStmt, Stmt } from "./statements";
+import { token, type Token } from "./token";
 
-export type Literal = string | number | boolean | null | LoxCallable;
+export type Literal =
+    | string
+    | number
+    | boolean
+    | null
+    | LoxCallable
+    | LoxInstance
+    | LoxList
+    | LoxMap
+    | LoxModule
+    | LoxGenerator
+    | LoxPromise;
+
+/** The accepted argument counts; `max` is Infinity with a rest parameter. */
+export interface Arity {
+    min: number;
+    max: number;
+}
 
 export interface LoxCallable {
-    arity: number;
-    call(args: Literal[], enclosing: Environment): Literal;
+    arity: Arity;
+    call(args: Literal[], enclosing?: Environment): Literal;
     toString(): string;
 }
 
 export interface LoxFunction extends LoxCallable {
     closure: Environment;
     declaration: FunctionStmt | FunctionExpr;
+    /** Returns a copy of the function with `this` bound to the instance. */
+    bind(instance: LoxInstance): LoxFunction;
+    /**
+     * Runs the body once. A call the body makes in tail position is thrown
+     * as a TailCallError for `call` to make next.
+     */
+    invoke(args: Literal[]): Literal;
+}
+
+/** How a LoxFunction runs its declaration; supplied by the interpreter. */
+export interface FunctionRuntime {
+    execute(body: Stmt[], environment: Environment): undefined;
+    evaluate(expr: Expr, environment: Environment): Literal;
+    /** Starts a generator body without running any of it. */
+    generate(
+        name: string,
+        body: Stmt[],
+        environment: Environment
+    ): LoxGenerator;
+    /** Starts an async body, running it up to its first `await`. */
+    start(name: string, body: Stmt[], environment: Environment): LoxPromise;
+}
+
+/** A method stored on a class: either a Lox function or a native one. */
+export interface LoxMethod {
+    arity: Arity;
+    bind(instance: LoxInstance): LoxCallable;
+}
+
+export interface LoxClass extends LoxCallable {
+    name: string;
+    superclass: LoxClass | null;
+    methods: Map<string, LoxMethod>;
+    /** Looks the method up on the class and then on its superclasses. */
+    findMethod(name: string): LoxMethod | null;
+}
+
+export interface LoxInstance {
+    klass: LoxClass;
+    fields: Map<string, Literal>;
+    get(name: Token): Literal;
+    set(name: Token, value: Literal): void;
+    toString(): string;
+}
+
+export interface LoxList {
+    elements: Literal[];
 }
 
+/**
+ * Only primitive values can be used as map keys, so lookups compare keys by
+ * value. Different kinds never collide: `1` and `"1"` are distinct keys.
+ */
+export type MapKey = string | number | boolean;
+
+export interface LoxMap {
+    /** Entries in insertion order. */
+    entries: Map<MapKey, Literal>;
+}
+
+/**
+ * A loaded module. Exports are read from the module's global environment on
+ * access, so they always reflect the module's current values.
+ */
+export interface LoxModule {
+    path: string;
+    environment: Environment;
+    exports: Set<string>;
+    get(name: Token): Literal;
+    toString(): string;
+}
+
+/** The state of a suspended generator body after it is resumed. */
+export interface GeneratorStep {
+    /** The yielded value, or the returned one once the body is done. */
+    value: Literal;
+    done: boolean;
+}
+
+/**
+ * The object a generator function returns. Its `next()` method resumes the
+ * body and `done()` reports whether the body has returned.
+ */
+export interface LoxGenerator {
+    /** Resumes the body, sending the value as the result of its `yield`. */
+    resume(value: Literal): GeneratorStep;
+    get(name: Token): Literal;
+    toString(): string;
+}
+
+/**
+ * The value an async function call returns. Awaiting it gives the result
+ * of the call, or rethrows the error the call failed with.
+ */
+export interface LoxPromise {
+    /** The outcome of the task, without marking the promise as awaited. */
+    result: Promise<Literal>;
+    /** Waits for the outcome and marks the promise as awaited. */
+    wait(): Promise<Literal>;
+    isAwaited(): boolean;
+    toString(): string;
+}
+
+/** Synthetic tokens for the implicit `this` and `super` bindings. */
+export const THIS_TOKEN = token("THIS", "this");
+export const SUPER_TOKEN = token("SUPER", "super");
+
 export function isCallable(value: Literal): value is LoxCallable {
     return typeof value === "object" && value !== null && "call" in value;
 }
@@ -24,12 +147,59 @@ export function isFunction(value: Literal): value is LoxFunction {
     return isCallable(value) && "declaration" in value;
 }
 
+export function isClass(value: Literal): value is LoxClass {
+    return isCallable(value) && "findMethod" in value;
+}
+
+export function isInstance(value: Literal): value is LoxInstance {
+    return typeof value === "object" && value !== null && "klass" in value;
+}
+
+export function isList(value: Literal): value is LoxList {
+    return typeof value === "object" && value !== null && "elements" in value;
+}
+
+export function isMap(value: Literal): value is LoxMap {
+    return typeof value === "object" && value !== null && "entries" in value;
+}
+
+export function isModule(value: Literal): value is LoxModule {
+    return typeof value === "object" && value !== null && "exports" in value;
+}
+
+export function isGenerator(value: Literal): value is LoxGenerator {
+    return typeof value === "object" && value !== null && "resume" in value;
+}
+
+export function isPromise(value: Literal): value is LoxPromise {
+    return typeof value === "object" && value !== null && "wait" in value;
+}
+
+export function isMapKey(value: Literal): value is MapKey {
+    return (
+        typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean"
+    );
+}
+
+export function createMap(entries: Map<MapKey, Literal> = new Map()): LoxMap {
+    return Object.freeze({ entries });
+}
+
+export function createList(elements: Literal[] = []): LoxList {
+    return Object.freeze({ elements });
+}
+
+const toArity = (arity: number | Arity): Arity =>
+    typeof arity === "number" ? { min: arity, max: arity } : arity;
+
 export function createCallable(
-    arity: number,
+    arity: number | Arity,
     call: (args: Literal[]) => Literal
 ): LoxCallable {
     return Object.freeze({
-        arity,
+        arity: toArity(arity),
         call,
         toString: () => "<fn>",
     } satisfies LoxCallable);
@@ -38,43 +208,268 @@ export function createCallable(
 export function createFunction(
     declaration: FunctionStmt | FunctionExpr,
     closure: Environment,
-    execFn: (
-        declaration: FunctionStmt | FunctionExpr,
-        enclosing: Environment
-    ) => undefined
+    runtime: FunctionRuntime,
+    isInitializer = false
 ): LoxFunction {
+    const { parameters } = declaration;
+    const name =
+        declaration.type === "function" ? declaration.name.lexeme : "anonymous";
+    const required = parameters.findIndex(
+        (parameter) => parameter.defaultValue !== null || parameter.rest
+    );
+
+    const invoke = (args: Literal[]) => {
+        const scope = createEnvironment(closure);
+        parameters.forEach((parameter, i) => {
+            const argument = args[i];
+            if (parameter.rest) {
+                scope.define(parameter.name, createList(args.slice(i)));
+            } else if (argument !== undefined) {
+                scope.define(parameter.name, argument);
+            } else if (parameter.defaultValue !== null) {
+                const value = runtime.evaluate(parameter.defaultValue, scope);
+                scope.define(parameter.name, value);
+            } else {
+                throw new Error("Argument is undefined");
+            }
+        });
+        if (declaration.isGenerator) {
+            return runtime.generate(name, declaration.body, scope);
+        }
+        if (declaration.isAsync) {
+            return runtime.start(name, declaration.body, scope);
+        }
+        try {
+            runtime.execute(declaration.body, scope);
+        } catch (error) {
+            if (error instanceof ReturnError) {
+                return isInitializer ? closure.get(THIS_TOKEN, 0) : error.value;
+            }
+            throw error;
+        }
+        return isInitializer ? closure.get(THIS_TOKEN, 0) : null;
+    };
+
     return Object.freeze({
         closure,
         declaration,
-        get arity() {
-            return declaration.parameters.length;
+        arity: {
+            min: required === -1 ? parameters.length : required,
+            max: parameters.at(-1)?.rest ? Infinity : parameters.length,
+        },
+        bind: (instance: LoxInstance) => {
+            const environment = createEnvironment(closure);
+            environment.define(THIS_TOKEN, instance);
+            return createFunction(
+                declaration,
+                environment,
+                runtime,
+                isInitializer
+            );
         },
+        invoke,
         call: (args: Literal[]) => {
-            const scope = createEnvironment(closure);
-            for (let i = 0; i < declaration.parameters.length; i++) {
-                const parameter = declaration.parameters[i];
-                const argument = args[i];
-                if (parameter === undefined)
-                    throw new Error("Parameter is undefined");
-                if (argument === undefined)
-                    throw new Error("Argument is undefined");
-                scope.define(parameter, argument);
+            // Trampoline: each tail call returns here before it's made.
+            let callee = { invoke };
+            for (;;) {
+                try {
+                    return callee.invoke(args);
+                } catch (error) {
+                    if (!(error instanceof TailCallError)) throw error;
+                    callee = error.callee;
+                    args = error.args;
+                }
             }
+        },
+        toString: () => `<fn ${name}>`,
+    } satisfies LoxFunction);
+}
+
+export function createClass(
+    name: string,
+    superclass: LoxClass | null,
+    methods: Map<string, LoxMethod>
+): LoxClass {
+    const findMethod = (methodName: string): LoxMethod | null =>
+        methods.get(methodName) ?? superclass?.findMethod(methodName) ?? null;
+
+    const klass: LoxClass = Object.freeze({
+        name,
+        superclass,
+        methods,
+        findMethod,
+        get arity() {
+            return findMethod("init")?.arity ?? toArity(0);
+        },
+        call: (args: Literal[], enclosing: Environment) => {
+            const instance = createInstance(klass);
+            findMethod("init")?.bind(instance).call(args, enclosing);
+            return instance;
+        },
+        toString: () => `<class ${name}>`,
+    } satisfies LoxClass);
+
+    return klass;
+}
+
+export function createInstance(klass: LoxClass): LoxInstance {
+    const fields = new Map<string, Literal>();
+
+    const instance: LoxInstance = Object.freeze({
+        klass,
+        fields,
+        get: (name: Token) => {
+            const value = fields.get(name.lexeme);
+            if (value !== undefined) return value;
+
+            const method = klass.findMethod(name.lexeme);
+            if (method) return method.bind(instance);
+
+            throw runtimeError(name, `Undefined property '${name.lexeme}'.`);
+        },
+        set: (name: Token, value: Literal) => {
+            fields.set(name.lexeme, value);
+        },
+        toString: () => `<${klass.name} instance>`,
+    } satisfies LoxInstance);
+
+    return instance;
+}
+
+export function createNativeMethod(
+    arity: number | Arity,
+    call: (instance: LoxInstance, args: Literal[]) => Literal
+): LoxMethod {
+    return Object.freeze({
+        arity: toArity(arity),
+        bind: (instance: LoxInstance) =>
+            createCallable(arity, (args) => call(instance, args)),
+    } satisfies LoxMethod);
+}
+
+/**
+ * The built-in class of error values. `catch` receives runtime errors raised
+ * by the interpreter as its instances, with `message` and `line` fields.
+ */
+export const ERROR_CLASS = createClass(
+    "Error",
+    null,
+    new Map([
+        [
+            "init",
+            createNativeMethod(1, (instance, [message = null]) => {
+                instance.fields.set("message", message);
+                // Filled in by the first `throw` of the error.
+                instance.fields.set("line", null);
+                return null;
+            }),
+        ],
+    ])
+);
+
+/** Whether the value is an instance of `Error` or one of its subclasses. */
+export function isError(value: Literal): value is LoxInstance {
+    if (!isInstance(value)) return false;
+    for (let klass: LoxClass | null = value.klass; klass; ) {
+        if (klass === ERROR_CLASS) return true;
+        klass = klass.superclass;
+    }
+    return false;
+}
+
+export function createError(message: string, line: number): LoxInstance {
+    const error = createInstance(ERROR_CLASS);
+    error.fields.set("message", message);
+    error.fields.set("line", line);
+    return error;
+}
+
+export function createGenerator(
+    name: string,
+    resume: (value: Literal) => GeneratorStep
+): LoxGenerator {
+    let running = false;
+    let done = false;
+
+    const generator: LoxGenerator = Object.freeze({
+        resume: (value: Literal) => {
+            if (running) throw nativeError("Generator is already running.");
+            if (done) return { value: null, done };
+
+            running = true;
             try {
-                execFn(declaration, scope);
+                const step = resume(value);
+                done = step.done;
+                return step;
             } catch (error) {
-                if (error instanceof ReturnError) {
-                    return error.value;
-                }
+                done = true;
                 throw error;
+            } finally {
+                running = false;
             }
-            return null;
         },
-        toString: () =>
-            `<fn ${
-                declaration.type === "function"
-                    ? declaration.name.lexeme
-                    : "anonymous"
-            }>`,
-    } satisfies LoxFunction);
+        get: (property: Token) => {
+            switch (property.lexeme) {
+                case "next":
+                    return createCallable(
+                        { min: 0, max: 1 },
+                        ([value = null]) => generator.resume(value).value
+                    );
+                case "done":
+                    return createCallable(0, () => done);
+            }
+            throw runtimeError(
+                property,
+                `Undefined property '${property.lexeme}'.`
+            );
+        },
+        toString: () => `<generator ${name}>`,
+    } satisfies LoxGenerator);
+
+    return generator;
+}
+
+export function createPromise(
+    name: string,
+    result: Promise<Literal>
+): LoxPromise {
+    let awaited = false;
+
+    return Object.freeze({
+        result,
+        wait: () => {
+            awaited = true;
+            return result;
+        },
+        isAwaited: () => awaited,
+        toString: () => `<promise ${name}>`,
+    } satisfies LoxPromise);
+}
+
+/** The name a module goes by in messages: its file name without `.lox`. */
+export const moduleName = (path: string) =>
+    (path.split(/[\\/]/).pop() ?? path).replace(/\.lox$/, "");
+
+export function createModule(
+    path: string,
+    environment: Environment,
+    exports: Set<string>
+): LoxModule {
+    const name = moduleName(path);
+
+    return Object.freeze({
+        path,
+        environment,
+        exports,
+        get: (exportName: Token) => {
+            if (!exports.has(exportName.lexeme)) {
+                throw runtimeError(
+                    exportName,
+                    `Module '${name}' has no export '${exportName.lexeme}'.`
+                );
+            }
+            return environment.get(exportName);
+        },
+        toString: () => `<module ${name}>`,
+    } satisfies LoxModule);
 }
@@ -0,0 +1,170 @@
+import { nativeError } from "./error";
+import { eventLoop } from "./event-loop";
+import {
+    createCallable,
+    createList,
+    createPromise,
+    ERROR_CLASS,
+    isCallable,
+    isList,
+    isMap,
+    isMapKey,
+    type Literal,
+    type LoxList,
+    type LoxMap,
+    type MapKey,
+} from "./literal";
+
+/**
+ * Defines the native functions available in every global environment.
+ */
+export function defineNatives(values: Map<string, Literal>) {
+    values.set(
+        "clock",
+        createCallable(0, () => Date.now() / 1000)
+    );
+
+    values.set("Error", ERROR_CLASS);
+
+    values.set(
+        "sleep",
+        createCallable(1, ([ms = null]) => {
+            const delay = ensureDelay(ms, "sleep");
+            return createPromise(
+                "sleep",
+                new Promise((resolve) => {
+                    eventLoop.schedule(() => resolve(null), delay);
+                })
+            );
+        })
+    );
+
+    values.set(
+        "setTimeout",
+        createCallable(2, ([callback = null, ms = null]) => {
+            if (!isCallable(callback) || callback.arity.min > 0) {
+                throw nativeError(
+                    "First argument to 'setTimeout' must be a function without required parameters."
+                );
+            }
+            const delay = ensureDelay(ms, "setTimeout");
+            eventLoop.schedule(() => callback.call([]), delay);
+            return null;
+        })
+    );
+
+    values.set(
+        "len",
+        createCallable(1, ([value = null]) => {
+            if (typeof value === "string") return value.length;
+            if (isList(value)) return value.elements.length;
+            if (isMap(value)) return value.entries.size;
+            throw nativeError(
+                "Argument to 'len' must be a string, a list or a map."
+            );
+        })
+    );
+
+    values.set(
+        "push",
+        createCallable(2, ([list = null, value = null]) => {
+            return ensureList(list, "push").elements.push(value);
+        })
+    );
+
+    values.set(
+        "pop",
+        createCallable(1, ([list = null]) => {
+            const { elements } = ensureList(list, "pop");
+            if (elements.length === 0) {
+                throw nativeError("Can't pop from an empty list.");
+            }
+            return elements.pop() ?? null;
+        })
+    );
+
+    values.set(
+        "slice",
+        createCallable(
+            { min: 2, max: 3 },
+            ([list = null, start = null, end = null]) => {
+                const { elements } = ensureList(list, "slice");
+                return createList(
+                    elements.slice(
+                        ensureInteger(start, "slice"),
+                        end === null ? undefined : ensureInteger(end, "slice")
+                    )
+                );
+            }
+        )
+    );
+
+    values.set(
+        "has",
+        createCallable(2, ([map = null, key = null]) => {
+            return ensureMap(map, "has").entries.has(ensureMapKey(key));
+        })
+    );
+
+    values.set(
+        "keys",
+        createCallable(1, ([map = null]) => {
+            return createList([...ensureMap(map, "keys").entries.keys()]);
+        })
+    );
+
+    values.set(
+        "values",
+        createCallable(1, ([map = null]) => {
+            return createList([...ensureMap(map, "values").entries.values()]);
+        })
+    );
+
+    values.set(
+        "remove",
+        createCallable(2, ([map = null, key = null]) => {
+            const { entries } = ensureMap(map, "remove");
+            const mapKey = ensureMapKey(key);
+            const value = entries.get(mapKey) ?? null;
+            entries.delete(mapKey);
+            return value;
+        })
+    );
+}
+
+const ensureList = (value: Literal, name: string): LoxList => {
+    if (!isList(value)) {
+        throw nativeError(`First argument to '${name}' must be a list.`);
+    }
+    return value;
+};
+
+const ensureInteger = (value: Literal, name: string): number => {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+        throw nativeError(`Indices passed to '${name}' must be integers.`);
+    }
+    return value;
+};
+
+const ensureDelay = (value: Literal, name: string): number => {
+    if (typeof value !== "number" || value < 0) {
+        throw nativeError(
+            `Delay passed to '${name}' must be a non-negative number.`
+        );
+    }
+    return value;
+};
+
+const ensureMap = (value: Literal, name: string): LoxMap => {
+    if (!isMap(value)) {
+        throw nativeError(`First argument to '${name}' must be a map.`);
+    }
+    return value;
+};
+
+const ensureMapKey = (value: Literal): MapKey => {
+    if (!isMapKey(value)) {
+        throw nativeError("Map keys must be strings, numbers or booleans.");
+    }
+    return value;
+};
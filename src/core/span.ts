@@ -0,0 +1,41 @@
+import type { Expr } from "./expressions";
+import type { Stmt } from "./statements";
+import type { Token } from "./token";
+
+/** The stretch of source a syntax node was parsed from. */
+export interface Span {
+    /** Offset of the node's first character. */
+    start: number;
+    /** Offset just past the node's last character. */
+    end: number;
+    line: number;
+    column: number;
+    source: string;
+    /** The node's first token, for errors about the node as a whole. */
+    first: Token;
+}
+
+type Node = Expr | Stmt;
+
+/**
+ * Spans live beside the tree rather than in it, so nodes built by hand or
+ * desugared by the parser compare equal whether or not they have one.
+ */
+const spans = new WeakMap<Node, Span>();
+
+/** The span the parser recorded for the node, if any. */
+export function spanOf(node: Node): Span | null {
+    return spans.get(node) ?? null;
+}
+
+/** Records that the node covers the source from `first` through `last`. */
+export function setSpan(node: Node, first: Token, last: Token) {
+    spans.set(node, {
+        start: first.start,
+        end: Math.max(first.end, last.end),
+        line: first.line,
+        column: first.column,
+        source: first.source,
+        first,
+    });
+}
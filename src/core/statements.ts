@@ -1,4 +1,5 @@
-import type { Expr } from "./expressions";
+import type { CallExpr, Expr, Parameter, VariableExpr } from "./expressions";
+import type { SourceError } from "./error";
 import type { Token } from "./token";
 
 export interface BlockStmt {
@@ -20,30 +21,105 @@ export interface ReturnStmt {
     type: "returnStmt";
     keyword: Token;
     value: Expr | null;
+    /**
+     * The value again when it is a call the function can hand off to its
+     * caller instead of waiting on, because nothing runs after it returns.
+     */
+    tailCall: CallExpr | null;
 }
 
 export interface VarDeclStmt {
     type: "varDecl";
     name: Token;
     initializer: Expr | null;
+    constant: boolean;
+    /** The `///` doc comment written before the declaration. */
+    doc: string | null;
 }
 
 export interface WhileStmt {
     type: "whileStmt";
     condition: Expr;
     body: Stmt;
+    /** The increment clause of a desugared `for` loop, run after each pass. */
+    increment: Expr | null;
+    label: Token | null;
+}
+
+export interface ForInStmt {
+    type: "forInStmt";
+    keyword: Token;
+    name: Token;
+    iterable: Expr;
+    body: Stmt;
+    label: Token | null;
 }
 
 export interface BreakStmt {
     type: "breakStmt";
     operator: Token;
+    label: Token | null;
+}
+
+export interface ContinueStmt {
+    type: "continueStmt";
+    keyword: Token;
+    label: Token | null;
+}
+
+export interface ThrowStmt {
+    type: "throwStmt";
+    keyword: Token;
+    value: Expr;
+}
+
+export interface TryStmt {
+    type: "tryStmt";
+    body: Stmt[];
+    /** The catch clause, or `null` when the statement only has `finally`. */
+    handler: { name: Token; body: Stmt[] } | null;
+    finalizer: Stmt[] | null;
+}
+
+/**
+ * `import "path" as name;` binds the module object to `alias`, while
+ * `import { a, b } from "path";` binds each export listed in `names`. A
+ * named import copies the export's value when the import runs, so it
+ * doesn't see the module reassigning it later; `name.a` through the module
+ * object does.
+ */
+export interface ImportStmt {
+    type: "importStmt";
+    keyword: Token;
+    path: Token;
+    alias: Token | null;
+    names: Token[];
+}
+
+export interface ExportStmt {
+    type: "exportStmt";
+    keyword: Token;
+    declaration: VarDeclStmt | FunctionStmt | ClassStmt;
 }
 
 export interface FunctionStmt {
     type: "function";
     name: Token;
-    parameters: Token[];
+    parameters: Parameter[];
     body: Stmt[];
+    /** Whether the body yields, making calls return a generator. */
+    isGenerator: boolean;
+    /** Whether the function is `async`, making calls return a promise. */
+    isAsync: boolean;
+    /** The `///` doc comment written before the declaration. */
+    doc: string | null;
+}
+
+export interface ClassStmt {
+    type: "classDecl";
+    name: Token;
+    superclass: VariableExpr | null;
+    methods: FunctionStmt[];
 }
 
 export interface IfStmt {
@@ -53,6 +129,17 @@ export interface IfStmt {
     elseBranch: Stmt | null;
 }
 
+/**
+ * Stands in for a statement the parser gave up on, so the statements around
+ * it can still be resolved.
+ */
+export interface ErrorStmt {
+    type: "errorStmt";
+    /** The token the statement started at. */
+    token: Token;
+    error: SourceError;
+}
+
 export type Stmt =
     | ExprStmt
     | PrintStmt
@@ -61,8 +148,16 @@ export type Stmt =
     | BlockStmt
     | IfStmt
     | WhileStmt
+    | ForInStmt
     | BreakStmt
-    | FunctionStmt;
+    | ContinueStmt
+    | ThrowStmt
+    | TryStmt
+    | ImportStmt
+    | ExportStmt
+    | FunctionStmt
+    | ClassStmt
+    | ErrorStmt;
 
 export const expr = (expression: Expr) =>
     ({ type: "exprStmt", expression } satisfies ExprStmt);
@@ -70,11 +165,25 @@ export const expr = (expression: Expr) =>
 export const print = (expression: Expr) =>
     ({ type: "printStmt", expression } satisfies PrintStmt);
 
-export const returnStmt = (keyword: Token, value: Expr | null) =>
-    ({ type: "returnStmt", keyword, value } satisfies ReturnStmt);
+export const returnStmt = (
+    keyword: Token,
+    value: Expr | null,
+    tailCall: CallExpr | null = null
+) => ({ type: "returnStmt", keyword, value, tailCall } satisfies ReturnStmt);
 
-export const varDecl = (name: Token, initializer: Expr | null) =>
-    ({ type: "varDecl", name, initializer } satisfies VarDeclStmt);
+export const varDecl = (
+    name: Token,
+    initializer: Expr | null,
+    constant = false,
+    doc: string | null = null
+) =>
+    ({
+        type: "varDecl",
+        name,
+        initializer,
+        constant,
+        doc,
+    } satisfies VarDeclStmt);
 
 export const block = (statements: Stmt[]) =>
     ({ type: "block", statements } satisfies BlockStmt);
@@ -85,11 +194,86 @@ export const ifStmt = (
     elseBranch: Stmt | null
 ) => ({ type: "ifStmt", condition, thenBranch, elseBranch } satisfies IfStmt);
 
-export const whileStmt = (condition: Expr, body: Stmt) =>
-    ({ type: "whileStmt", condition, body } satisfies WhileStmt);
+export const whileStmt = (
+    condition: Expr,
+    body: Stmt,
+    increment: Expr | null = null,
+    label: Token | null = null
+) =>
+    ({
+        type: "whileStmt",
+        condition,
+        body,
+        increment,
+        label,
+    } satisfies WhileStmt);
+
+export const breakStmt = (operator: Token, label: Token | null = null) =>
+    ({ type: "breakStmt", operator, label } satisfies BreakStmt);
+
+export const continueStmt = (keyword: Token, label: Token | null = null) =>
+    ({ type: "continueStmt", keyword, label } satisfies ContinueStmt);
+
+export const functionStmt = (
+    name: Token,
+    parameters: Parameter[],
+    body: Stmt[],
+    isGenerator = false,
+    isAsync = false,
+    doc: string | null = null
+) =>
+    ({
+        type: "function",
+        name,
+        parameters,
+        body,
+        isGenerator,
+        isAsync,
+        doc,
+    } satisfies FunctionStmt);
+
+export const forInStmt = (
+    keyword: Token,
+    name: Token,
+    iterable: Expr,
+    body: Stmt,
+    label: Token | null = null
+) =>
+    ({
+        type: "forInStmt",
+        keyword,
+        name,
+        iterable,
+        body,
+        label,
+    } satisfies ForInStmt);
+
+export const classDecl = (
+    name: Token,
+    superclass: VariableExpr | null,
+    methods: FunctionStmt[]
+) => ({ type: "classDecl", name, superclass, methods } satisfies ClassStmt);
+
+export const throwStmt = (keyword: Token, value: Expr) =>
+    ({ type: "throwStmt", keyword, value } satisfies ThrowStmt);
+
+export const tryStmt = (
+    body: Stmt[],
+    handler: TryStmt["handler"],
+    finalizer: Stmt[] | null
+) => ({ type: "tryStmt", body, handler, finalizer } satisfies TryStmt);
+
+export const importStmt = (
+    keyword: Token,
+    path: Token,
+    alias: Token | null,
+    names: Token[]
+) => ({ type: "importStmt", keyword, path, alias, names } satisfies ImportStmt);
 
-export const breakStmt = (operator: Token) =>
-    ({ type: "breakStmt", operator } satisfies BreakStmt);
+export const exportStmt = (
+    keyword: Token,
+    declaration: ExportStmt["declaration"]
+) => ({ type: "exportStmt", keyword, declaration } satisfies ExportStmt);
 
-export const functionStmt = (name: Token, parameters: Token[], body: Stmt[]) =>
-    ({ type: "function", name, parameters, body } satisfies FunctionStmt);
+export const errorStmt = (token: Token, error: SourceError) =>
+    ({ type: "errorStmt", token, error } satisfies ErrorStmt);
@@ -23,4 +23,17 @@ export const TOKEN_KEYWORDS: TokenKeywords = {
     var: TOKEN_TYPES.VAR,
     while: TOKEN_TYPES.WHILE,
     break: TOKEN_TYPES.BREAK,
+    continue: TOKEN_TYPES.CONTINUE,
+    match: TOKEN_TYPES.MATCH,
+    throw: TOKEN_TYPES.THROW,
+    try: TOKEN_TYPES.TRY,
+    catch: TOKEN_TYPES.CATCH,
+    finally: TOKEN_TYPES.FINALLY,
+    import: TOKEN_TYPES.IMPORT,
+    export: TOKEN_TYPES.EXPORT,
+    yield: TOKEN_TYPES.YIELD,
+    in: TOKEN_TYPES.IN,
+    const: TOKEN_TYPES.CONST,
+    async: TOKEN_TYPES.ASYNC,
+    await: TOKEN_TYPES.AWAIT,
 };
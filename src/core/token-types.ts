@@ -6,16 +6,32 @@ export const TOKEN_TYPES = {
     RIGHT_PAREN: "RIGHT_PAREN",
     LEFT_BRACE: "LEFT_BRACE",
     RIGHT_BRACE: "RIGHT_BRACE",
+    LEFT_BRACKET: "LEFT_BRACKET",
+    RIGHT_BRACKET: "RIGHT_BRACKET",
     COMMA: "COMMA",
+    COLON: "COLON",
     DOT: "DOT",
+    SEMICOLON: "SEMICOLON",
+    AMPERSAND: "AMPERSAND",
+    PIPE: "PIPE",
+    CARET: "CARET",
+    TILDE: "TILDE",
+    QUESTION: "QUESTION",
+
+    // One or two character tokens.
     MINUS: "MINUS",
+    MINUS_EQUAL: "MINUS_EQUAL",
+    MINUS_MINUS: "MINUS_MINUS",
     PLUS: "PLUS",
-    SEMICOLON: "SEMICOLON",
+    PLUS_EQUAL: "PLUS_EQUAL",
+    PLUS_PLUS: "PLUS_PLUS",
     SLASH: "SLASH",
+    SLASH_EQUAL: "SLASH_EQUAL",
     STAR: "STAR",
+    STAR_EQUAL: "STAR_EQUAL",
+    STAR_STAR: "STAR_STAR",
     PERCENT: "PERCENT",
-
-    // One or two character tokens.
+    PERCENT_EQUAL: "PERCENT_EQUAL",
     BANG: "BANG",
     BANG_EQUAL: "BANG_EQUAL",
     EQUAL: "EQUAL",
@@ -24,10 +40,20 @@ export const TOKEN_TYPES = {
     GREATER_EQUAL: "GREATER_EQUAL",
     LESS: "LESS",
     LESS_EQUAL: "LESS_EQUAL",
+    ARROW: "ARROW",
+    DOT_DOT: "DOT_DOT",
+    DOT_DOT_DOT: "DOT_DOT_DOT",
+    PIPE_GREATER: "PIPE_GREATER",
+    TILDE_SLASH: "TILDE_SLASH",
+    LESS_LESS: "LESS_LESS",
+    GREATER_GREATER: "GREATER_GREATER",
+    QUESTION_QUESTION: "QUESTION_QUESTION",
+    QUESTION_DOT: "QUESTION_DOT",
 
     // Literals.
     IDENTIFIER: "IDENTIFIER",
     STRING: "STRING",
+    INTERPOLATION: "INTERPOLATION",
     NUMBER: "NUMBER",
 
     // Keywords.
@@ -48,6 +74,22 @@ export const TOKEN_TYPES = {
     VAR: "VAR",
     WHILE: "WHILE",
     BREAK: "BREAK",
+    CONTINUE: "CONTINUE",
+    MATCH: "MATCH",
+    THROW: "THROW",
+    TRY: "TRY",
+    CATCH: "CATCH",
+    FINALLY: "FINALLY",
+    IMPORT: "IMPORT",
+    EXPORT: "EXPORT",
+    YIELD: "YIELD",
+    IN: "IN",
+    CONST: "CONST",
+    ASYNC: "ASYNC",
+    AWAIT: "AWAIT",
+
+    // Source the scanner couldn't make sense of; carries the error.
+    ERROR: "ERROR",
 
     // End of file.
     EOF: "EOF",
@@ -1,20 +1,59 @@
+import type { SyntaxError } from "./error";
 import type { Literal } from "./literal";
 import type { TokenType } from "./token-types";
 
 type TokenArgs = Pick<Token, "type"> &
-    Partial<Pick<Token, "lexeme" | "literal" | "line">>;
+    Partial<
+        Pick<
+            Token,
+            | "lexeme"
+            | "literal"
+            | "line"
+            | "doc"
+            | "start"
+            | "end"
+            | "column"
+            | "source"
+            | "file"
+            | "error"
+        >
+    >;
 
 export class Token {
     type: TokenType;
     lexeme: string;
     literal: Literal;
     line: number;
+    /** The text of the `///` doc comments right before the token, if any. */
+    doc: string | null;
+    /** Offset of the token's first character in the source. */
+    start: number;
+    /** Offset just past the token's last character. */
+    end: number;
+    /** 1-based column of the token's first character. */
+    column: number;
+    /**
+     * The text the token was scanned from, so errors can quote it. Empty for
+     * tokens the parser or interpreter make up.
+     */
+    source: string;
+    /** The file the source was read from, if it came from one. */
+    file: string | null;
+    /** What the scanner found wrong, for ERROR tokens. */
+    error: SyntaxError | null;
 
     constructor(args: TokenArgs) {
         this.type = args.type;
         this.lexeme = args.lexeme ?? "";
         this.literal = args.literal ?? null;
         this.line = args.line ?? 1;
+        this.doc = args.doc ?? null;
+        this.start = args.start ?? 0;
+        this.end = args.end ?? this.start;
+        this.column = args.column ?? 1;
+        this.source = args.source ?? "";
+        this.file = args.file ?? null;
+        this.error = args.error ?? null;
         Object.freeze(this);
     }
 
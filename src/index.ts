@@ -1,32 +1,59 @@
+import { relative, resolve } from "node:path";
+import { analyze } from "./analyze";
 import { createEnvironment } from "./core/environment";
 import { LoxError, RuntimeError } from "./core/error";
-import { interpret, type InterpreterOptions } from "./interpreter";
+import { eventLoop } from "./core/event-loop";
+import {
+    createModuleRegistry,
+    interpret,
+    type InterpreterOptions,
+} from "./interpreter";
 import { color } from "./lib/colors";
 import { measure } from "./lib/measure";
-import { parseAst } from "./parser";
-import { resolve } from "./resolver";
-import { scanTokens } from "./scanner";
 
-if (Bun.argv.length > 3) {
-    console.log("Usage: bunlox <input>");
+const USAGE =
+    "Usage: bunlox [--max-call-depth=<n>] [--format=text|json] [input]";
+
+const args = Bun.argv.slice(2);
+const inputs = args.filter((arg) => !arg.startsWith("--"));
+const options: InterpreterOptions = {};
+/** How errors and warnings are printed: for people, or as JSON lines. */
+let format: "text" | "json" = "text";
+
+for (const flag of args.filter((arg) => arg.startsWith("--"))) {
+    const [name, value] = flag.split("=");
+    const depth = Number(value);
+    if (name === "--max-call-depth" && Number.isInteger(depth) && depth > 0) {
+        options.maxCallDepth = depth;
+    } else if (name === "--format" && (value === "text" || value === "json")) {
+        format = value;
+    } else {
+        console.log(USAGE);
+        process.exit(64);
+    }
+}
+
+if (inputs.length > 1) {
+    console.log(USAGE);
     process.exit(64);
 }
 
-if (Bun.argv.length === 3) {
-    await runFile(Bun.argv[2] as string);
+if (inputs.length === 1) {
+    await runFile(inputs[0] as string);
 }
 
-if (Bun.argv.length < 3) {
+if (inputs.length === 0) {
     await runPrompt();
 }
 
 async function runFile(file: string) {
     const content = await Bun.file(file).text();
     try {
-        await run(content);
+        await run(content, { ...options, file });
+        await eventLoop.drain();
     } catch (error) {
         if (error instanceof LoxError) {
-            console.error(error.message);
+            report(error, file);
 
             if (error instanceof RuntimeError) {
                 process.exit(70);
@@ -47,6 +74,7 @@ async function runPrompt() {
     }
 
     const environment = createEnvironment();
+    const modules = createModuleRegistry();
 
     process.stdout.write("> ");
     for await (const line of console) {
@@ -69,10 +97,16 @@ async function runPrompt() {
         }
 
         try {
-            await run(ensureFinalSemicolon(line), { environment, repl: true });
+            await run(ensureFinalSemicolon(line), {
+                ...options,
+                environment,
+                modules,
+                repl: true,
+            });
+            await eventLoop.drain();
         } catch (error) {
             if (error instanceof LoxError) {
-                console.error(error.message);
+                report(error, null);
             } else {
                 console.error(error);
             }
@@ -82,23 +116,57 @@ async function runPrompt() {
 }
 
 async function run(source: string, options?: InterpreterOptions) {
-    const scanMeasureFinish = measure("Scan tokens");
-    const tokens = scanTokens(source);
-    scanMeasureFinish();
+    // Scanning is lazy and interleaves with parsing, so the phases are
+    // measured together.
+    const analyzeMeasureFinish = measure("Analyze source");
+    const { statements, locals, warnings } = analyze(source, {
+        file: options?.file,
+    });
+    analyzeMeasureFinish();
 
-    const parseMeasureFinish = measure("Parse tokens");
-    const ast = parseAst(tokens);
-    parseMeasureFinish();
-
-    const resolveMeasureFinish = measure("Resolve AST");
-    const { locals } = resolve(ast);
-    resolveMeasureFinish();
+    for (const warning of warnings) {
+        if (format === "json") report(warning, options?.file ?? null);
+        else console.warn(color("yellow", warning.message.trim()));
+    }
 
     const interpretMeasureFinish = measure("Interpret AST");
-    interpret(ast, { ...options, locals });
+    interpret(statements, { ...options, locals });
     interpretMeasureFinish();
 }
 
+/**
+ * Prints the error to stderr in the chosen format. JSON output has one
+ * diagnostic per line, so tools can read them as they arrive.
+ */
+function report(error: LoxError, file: string | null) {
+    if (format === "text") {
+        console.error(describeError(error, file));
+        return;
+    }
+    for (const diagnostic of error.toDiagnostics(file)) {
+        console.error(JSON.stringify(diagnostic));
+    }
+}
+
+/**
+ * The error's message, followed by the Lox call stack for runtime errors
+ * raised inside functions. Runtime errors raised in an imported module are
+ * headed with the module, as analysis errors are.
+ */
+function describeError(error: LoxError, file: string | null) {
+    if (!(error instanceof RuntimeError)) return error.message;
+    const lines = [error.message.trimEnd()];
+    if (error.file && (!file || resolve(file) !== resolve(error.file))) {
+        lines.unshift(`In module '${relative(process.cwd(), error.file)}':`);
+    }
+    for (const frame of error.trace) {
+        lines.push(
+            frame.startsWith("...") ? `    ${frame}` : `    at ${frame}`
+        );
+    }
+    return lines.join("\n");
+}
+
 /**
  * Ensures the line ends with a semicolon or a closing brace for REPL mode.
  */
@@ -1,4 +1,7 @@
 import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
 
 import {
     assignment,
@@ -9,6 +12,11 @@ import {
     variable,
     type Expr,
 } from "./core/expressions";
+import { analyze } from "./analyze";
+import { createEnvironment } from "./core/environment";
+import { LoxError, RuntimeError } from "./core/error";
+import { eventLoop } from "./core/event-loop";
+import { createCallable } from "./core/literal";
 import type { Stmt } from "./core/statements";
 import * as st from "./core/statements";
 import { token } from "./core/token";
@@ -50,10 +58,31 @@ function runStmtsAndCapture(statements: Stmt[]) {
     return out.map((s) => Bun.stripANSI(s));
 }
 
-function runSourceAndCapture(source: string) {
-    const tokens = Array.from(scanTokens(source));
+function runSourceAndCapture(source: string, file?: string) {
+    const tokens = Array.from(scanTokens(source, file));
     const statements = parseAst(tokens);
 
+    const original = console.log;
+    const out: string[] = [];
+    console.log = (msg?: unknown) => {
+        out.push(String(msg ?? ""));
+    };
+    try {
+        const { locals } = resolve(statements, { file });
+        interpret(statements, { repl: true, locals, file });
+    } finally {
+        console.log = original;
+    }
+    return out.map((s) => Bun.stripANSI(s));
+}
+
+/**
+ * Runs the source and waits for the timers and async calls it starts,
+ * capturing everything printed until then.
+ */
+async function runSourceToIdle(source: string) {
+    const statements = parseAst(scanTokens(source));
+
     const original = console.log;
     const out: string[] = [];
     console.log = (msg?: unknown) => {
@@ -61,13 +90,26 @@ function runSourceAndCapture(source: string) {
     };
     try {
         const { locals } = resolve(statements);
-        interpret(statements, { repl: true, locals });
+        interpret(statements, { locals });
+        await eventLoop.drain();
     } finally {
         console.log = original;
     }
     return out.map((s) => Bun.stripANSI(s));
 }
 
+/**
+ * Writes the given modules to a fresh temporary directory and returns the
+ * path of a (not yet written) entry file inside it.
+ */
+function writeModules(files: Record<string, string>) {
+    const dir = mkdtempSync(join(tmpdir(), "bunlox-"));
+    for (const [name, source] of Object.entries(files)) {
+        writeFileSync(join(dir, name), source);
+    }
+    return join(dir, "main.lox");
+}
+
 describe("Interpreter", () => {
     describe("Core", () => {
         test("mathematical operations", () => {
@@ -402,6 +444,70 @@ describe("Interpreter", () => {
         });
     });
 
+    describe("Constants", () => {
+        test("const declares a readable binding", () => {
+            const source = `
+                const greeting = "hi";
+                {
+                    const greeting = "inner";
+                    print greeting;
+                }
+                print greeting;
+            `;
+
+            expect(runSourceAndCapture(source)).toEqual(['"inner"', '"hi"']);
+        });
+
+        test("assigning to a const is rejected before running", () => {
+            const global = `
+                print "never";
+                const x = 1;
+                x = 2;
+            `;
+            const local = `
+                fun f() {
+                    const y = 1;
+                    fun g() { y += 1; }
+                }
+            `;
+
+            expect(() => runSourceAndCapture(global)).toThrow(
+                "Can't assign to constant 'x'."
+            );
+            expect(() => runSourceAndCapture(local)).toThrow(
+                "Can't assign to constant 'y'."
+            );
+            expect(() => runSourceAndCapture("const z = 1; z++;")).toThrow(
+                "Can't assign to constant 'z'."
+            );
+        });
+
+        test("a shadowing var can be assigned", () => {
+            const source = `
+                const x = 1;
+                { var x = 2; x = 3; print x; }
+                print x;
+            `;
+
+            expect(runSourceAndCapture(source)).toEqual(["3", "1"]);
+        });
+
+        test("REPL globals declared const on an earlier line stay constant", () => {
+            const environment = createEnvironment();
+            const runLine = (source: string) => {
+                const statements = parseAst(scanTokens(source));
+                const { locals } = resolve(statements);
+                interpret(statements, { repl: true, environment, locals });
+            };
+
+            runLine("const x = 1;");
+            expect(() => runLine("x = 2;")).toThrow(
+                "Can't assign to constant 'x'."
+            );
+            expect(environment.values.get("x")).toBe(1);
+        });
+    });
+
     describe("Control flow", () => {
         test("if statements with else and dangling else associativity", () => {
             const source = `
@@ -428,6 +534,87 @@ describe("Interpreter", () => {
         });
     });
 
+    describe("Loops", () => {
+        test("continue in a for loop still runs the increment", () => {
+            const source = `
+                for (var i = 0; i < 6; i = i + 1) {
+                    if (i % 2 == 0) continue;
+                    print i;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["1", "3", "5"]);
+        });
+
+        test("continue in a while loop skips to the condition", () => {
+            const source = `
+                var i = 0;
+                while (i < 4) {
+                    i = i + 1;
+                    if (i == 2) continue;
+                    print i;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["1", "3", "4"]);
+        });
+
+        test("labeled break exits the outer loop", () => {
+            const source = `
+                outer: for (var i = 0; i < 3; i = i + 1) {
+                    for (var j = 0; j < 3; j = j + 1) {
+                        if (i == 1 and j == 1) break outer;
+                        print i + "," + j;
+                    }
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"0,0"', '"0,1"', '"0,2"', '"1,0"']);
+        });
+
+        test("labeled continue runs the outer loop increment", () => {
+            const source = `
+                var i = 0;
+                outer: while (i < 3) {
+                    i = i + 1;
+                    for (var j = 0; j < 3; j = j + 1) {
+                        if (j == 1) continue outer;
+                        print i + "," + j;
+                    }
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"1,0"', '"2,0"', '"3,0"']);
+        });
+
+        test("unknown and reused labels are resolver errors", () => {
+            expect(() =>
+                runSourceAndCapture("while (true) { break missing; }")
+            ).toThrow(/Undefined label 'missing'\./);
+            expect(() =>
+                runSourceAndCapture(
+                    "outer: while (true) { fun f() { continue outer; } }"
+                )
+            ).toThrow(/Undefined label 'outer'\./);
+            expect(() =>
+                runSourceAndCapture("a: while (true) { a: while (true) {} }")
+            ).toThrow(/Label 'a' is already in use\./);
+        });
+
+        test("continue outside of a loop is a resolver error", () => {
+            expect(() => runSourceAndCapture("continue;")).toThrow(
+                /Can't continue outside of a loop\./
+            );
+            expect(() =>
+                runSourceAndCapture("while (true) { fun f() { continue; } }")
+            ).toThrow(/Can't continue outside of a loop\./);
+        });
+    });
+
     describe("Logical operators", () => {
         test("or returns first truthy operand", () => {
             const source = `
@@ -449,4 +636,1471 @@ describe("Interpreter", () => {
             expect(outputs).toEqual(["2", "nil"]);
         });
     });
+
+    describe("Functions", () => {
+        test("parameters and locals resolve inside the function body", () => {
+            const source = `
+                fun add(a, b) {
+                    var sum = a + b;
+                    return sum;
+                }
+                print add(1, 2);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["3"]);
+        });
+
+        test("closures keep their captured variables", () => {
+            const source = `
+                fun makeCounter() {
+                    var i = 0;
+                    fun count() {
+                        i = i + 1;
+                        return i;
+                    }
+                    return count;
+                }
+                var counter = makeCounter();
+                print counter();
+                print counter();
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["1", "2"]);
+        });
+    });
+
+    describe("Tail calls", () => {
+        test("self and mutual tail recursion run in constant stack", () => {
+            const source = `
+                fun loop(n, total) {
+                    if (n == 0) return total;
+                    return loop(n - 1, total + n);
+                }
+                fun isEven(n) {
+                    if (n == 0) return true;
+                    return isOdd(n - 1);
+                }
+                fun isOdd(n) {
+                    if (n == 0) return false;
+                    return isEven(n - 1);
+                }
+                print loop(20000, 0);
+                print isEven(20001);
+            `;
+
+            expect(runSourceAndCapture(source)).toEqual(["200010000", "false"]);
+        });
+
+        test("calls inside try still run before catch and finally", () => {
+            const source = `
+                fun fail() { throw "boom"; }
+                fun guarded() {
+                    try {
+                        return fail();
+                    } catch (error) {
+                        return "caught " + error;
+                    } finally {
+                        print "finally";
+                    }
+                }
+                fun size(list) { return len(list); }
+                print guarded();
+                print size([1, 2]);
+            `;
+
+            expect(runSourceAndCapture(source)).toEqual([
+                '"finally"',
+                '"caught boom"',
+                "2",
+            ]);
+        });
+    });
+
+    describe("Stack traces", () => {
+        const traceOf = (source: string) => {
+            try {
+                runSourceAndCapture(source);
+            } catch (error) {
+                if (error instanceof RuntimeError) return error.trace;
+                throw error;
+            }
+            throw new Error("Expected a runtime error.");
+        };
+
+        test("errors inside functions carry the Lox call stack", () => {
+            const source = `
+                fun fib(n) {
+                    if (n < 2) return nil + n;
+                    return fib(n - 1) + fib(n - 2);
+                }
+                var wrapper = fun () {
+                    print fib(2);
+                };
+
+                wrapper();
+            `;
+
+            expect(traceOf(source)).toEqual([
+                "fib (line 3)",
+                "fib (line 4)",
+                "anonymous (line 7)",
+                "<script> (line 10)",
+            ]);
+        });
+
+        test("recursion past the call depth limit is a stack overflow", () => {
+            const run = (maxCallDepth: number) => {
+                const statements = parseAst(
+                    scanTokens(`
+                        fun down(n) { return 1 + down(n + 1); }
+                        down(0);
+                    `)
+                );
+                const { locals } = resolve(statements);
+                interpret(statements, { locals, maxCallDepth });
+            };
+
+            expect(() => run(50)).toThrow("[line 2] Error: Stack overflow.");
+            try {
+                run(50);
+            } catch (error) {
+                expect((error as RuntimeError).trace.slice(-2)).toEqual([
+                    "... 40 more",
+                    "<script> (line 3)",
+                ]);
+            }
+            // Past what the host stack can take
+            expect(() => run(Infinity)).toThrow("Stack overflow.");
+        });
+
+        test("only running out of host stack is a stack overflow", () => {
+            const deep = `
+                var xs = [];
+                for (var i = 0; i < 200000; i = i + 1) xs = [xs];
+                print xs;
+            `;
+            expect(() => runSourceAndCapture(deep)).toThrow(
+                "[line 4] Error: Stack overflow."
+            );
+
+            const environment = createEnvironment();
+            environment.define(
+                token("IDENTIFIER", "grow"),
+                createCallable(0, () => new Array(-1).length)
+            );
+            const statements = parseAst(scanTokens("\ngrow();"));
+            const { locals } = resolve(statements);
+            expect(() =>
+                interpret(statements, { environment, locals })
+            ).toThrow(
+                "[line 2] Error: Internal error: Array length must be a positive integer of safe magnitude."
+            );
+        });
+
+        test("errors outside functions have no trace", () => {
+            expect(traceOf("print nil + 1;")).toEqual([]);
+        });
+
+        test("errors quote the source line and underline the culprit", () => {
+            expect(() =>
+                runSourceAndCapture("var a = 1;\n\tprint a.name;")
+            ).toThrow(
+                "[line 2] Error: Only instances, modules and generators have properties.\n" +
+                    "2 | \tprint a.name;\n" +
+                    "  | \t      ^\n"
+            );
+        });
+
+        test("resolver errors underline the node at fault", () => {
+            expect(() =>
+                runSourceAndCapture("class A { init() { return 1 + 2; } }")
+            ).toThrow(
+                "[line 1] Error at 'return': Can't return a value from an initializer.\n" +
+                    "1 | class A { init() { return 1 + 2; } }\n" +
+                    "  |                           ^~~~~\n"
+            );
+        });
+
+        test("operator errors underline the operand at fault", () => {
+            expect(() => runSourceAndCapture('print "abc" - 1;')).toThrow(
+                "[line 1] Error: Operand of - must be a number\n" +
+                    '1 | print "abc" - 1;\n' +
+                    "  |       ^~~~~\n"
+            );
+            expect(() => runSourceAndCapture("print 1 / (2 - 2);")).toThrow(
+                "[line 1] Error: Division by zero\n" +
+                    "1 | print 1 / (2 - 2);\n" +
+                    "  |           ^~~~~~~\n"
+            );
+        });
+    });
+
+    describe("Parameters", () => {
+        test("defaults are evaluated at call time in the function scope", () => {
+            const source = `
+                var calls = 0;
+                fun next() { calls++; return calls; }
+                fun greet(name, greeting = "Hello", id = next()) {
+                    return "\${greeting}, \${name} #\${id}";
+                }
+                print greet("Ann");
+                print greet("Bob", "Hi");
+                print greet("Cy", "Hey", 9);
+                fun scale(x, factor = x) { return x * factor; }
+                print scale(3);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"Hello, Ann #1"',
+                '"Hi, Bob #2"',
+                '"Hey, Cy #9"',
+                "9",
+            ]);
+        });
+
+        test("rest parameters collect the remaining arguments", () => {
+            const source = `
+                fun sum(...nums) {
+                    var total = 0;
+                    for (var i = 0; i < len(nums); i++) total += nums[i];
+                    return total;
+                }
+                fun tag(name, ...rest) { return rest; }
+                print sum();
+                print sum(1, 2, 3);
+                print tag("a");
+                print tag("a", 1, 2);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["0", "6", "[]", "[1, 2]"]);
+        });
+
+        test("arity errors report the accepted range", () => {
+            const source = `
+                fun greet(name, greeting = "Hello") {}
+                fun log(level, ...messages) {}
+                fun pair(a, b) {}
+            `;
+
+            expect(() => runSourceAndCapture(source + "greet();")).toThrow(
+                "Expected 1 to 2 arguments but got 0."
+            );
+            expect(() => runSourceAndCapture(source + "log();")).toThrow(
+                "Expected at least 1 arguments but got 0."
+            );
+            expect(() => runSourceAndCapture(source + "pair(1);")).toThrow(
+                "Expected 2 arguments but got 1."
+            );
+        });
+    });
+
+    describe("Classes", () => {
+        test("initializer sets fields and methods read them through this", () => {
+            const source = `
+                class Point {
+                    init(x, y) {
+                        this.x = x;
+                        this.y = y;
+                    }
+                    sum() {
+                        return this.x + this.y;
+                    }
+                }
+                var p = Point(1, 2);
+                print p.sum();
+                print p;
+                print Point;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["3", "<Point instance>", "<class Point>"]);
+        });
+
+        test("bound methods keep their instance", () => {
+            const source = `
+                class Person {
+                    init(name) { this.name = name; }
+                    greet() { return "Hi, " + this.name; }
+                }
+                var greet = Person("Ann").greet;
+                print greet();
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"Hi, Ann"']);
+        });
+
+        test("subclasses inherit and call overridden methods via super", () => {
+            const source = `
+                class Animal {
+                    init(name) { this.name = name; }
+                    speak() { return this.name + " makes a sound"; }
+                }
+                class Dog < Animal {
+                    speak() { return super.speak() + " (woof)"; }
+                }
+                print Dog("Rex").speak();
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"Rex makes a sound (woof)"']);
+        });
+
+        test("calling init directly returns the instance", () => {
+            const source = `
+                class Box { init() { return; } }
+                var box = Box();
+                print box.init() == box;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["true"]);
+        });
+
+        test("reading an undefined property throws", () => {
+            const source = `
+                class Empty {}
+                Empty().missing;
+            `;
+
+            expect(() => runSourceAndCapture(source)).toThrow(
+                /Undefined property 'missing'\./
+            );
+        });
+
+        test("superclass must be a class", () => {
+            const source = `
+                var NotAClass = 1;
+                class A < NotAClass {}
+            `;
+
+            expect(() => runSourceAndCapture(source)).toThrow(
+                /Superclass must be a class\./
+            );
+        });
+
+        test("resolver rejects this and super outside of classes", () => {
+            expect(() => runSourceAndCapture("print this;")).toThrow(
+                /Can't use 'this' outside of a class\./
+            );
+            expect(() =>
+                runSourceAndCapture("class A { f() { super.f(); } }")
+            ).toThrow(/Can't use 'super' in a class with no superclass\./);
+            expect(() =>
+                runSourceAndCapture("class A { init() { return 1; } }")
+            ).toThrow(/Can't return a value from an initializer\./);
+        });
+    });
+
+    describe("Lists", () => {
+        test("list literals, indexing and index assignment", () => {
+            const source = `
+                var xs = [1, "two", [3, nil]];
+                print xs;
+                print xs[2][0];
+                xs[0] = 10;
+                print xs[0];
+                print [];
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '[1, "two", [3, nil]]',
+                "3",
+                "10",
+                "10",
+                "[]",
+            ]);
+        });
+
+        test("native list helpers", () => {
+            const source = `
+                var xs = [1, 2, 3];
+                print len(xs);
+                print push(xs, 4);
+                print pop(xs);
+                print slice(xs, 1, nil);
+                print slice(xs, 0, 2);
+                print len("hello");
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["3", "4", "4", "[2, 3]", "[1, 2]", "5"]);
+        });
+
+        test("out of range index throws", () => {
+            expect(() => runSourceAndCapture("[1, 2][2];")).toThrow(
+                /List index 2 out of range for length 2\./
+            );
+            expect(() =>
+                runSourceAndCapture("var xs = [1]; xs[-1] = 0;")
+            ).toThrow(/List index -1 out of range for length 1\./);
+        });
+
+        test("non-integer index and non-list target throw", () => {
+            expect(() => runSourceAndCapture("[1][0.5];")).toThrow(
+                /List index must be an integer\./
+            );
+            expect(() => runSourceAndCapture("var n = 1; n[0];")).toThrow(
+                /Only lists and maps can be indexed\./
+            );
+        });
+
+        test("a list that contains itself prints as [...]", async () => {
+            const source = `
+                var xs = [1];
+                push(xs, xs);
+                var shared = [2];
+                print xs;
+                print [shared, shared];
+            `;
+
+            const outputs = await runSourceToIdle(source);
+            expect(outputs).toEqual(["[1, [...]]", "[[2], [2]]"]);
+        });
+
+        test("native errors are reported at the call site", () => {
+            expect(() => runSourceAndCapture("\n\npop([]);")).toThrow(
+                /\[line 3\] Error: Can't pop from an empty list\./
+            );
+        });
+    });
+
+    describe("Maps", () => {
+        test("map literals, key reads and writes", () => {
+            const source = `
+                var m = {"a": 1, 2: [1, 2], true: {"x": nil}};
+                print m;
+                print m["a"];
+                print m[true]["x"];
+                print m["missing"];
+                m["a"] = 10;
+                m["b"] = 20;
+                print m["a"] + m["b"];
+                print {};
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '{"a": 1, 2: [1, 2], true: {"x": nil}}',
+                "1",
+                "nil",
+                "nil",
+                "10",
+                "20",
+                "30",
+                "{}",
+            ]);
+        });
+
+        test("a map that contains itself prints as {...}", async () => {
+            const source = `
+                var m = {"a": 1};
+                m["self"] = m;
+                m["list"] = [m];
+                print m;
+            `;
+
+            const outputs = await runSourceToIdle(source);
+            expect(outputs).toEqual([
+                '{"a": 1, "self": {...}, "list": [{...}]}',
+            ]);
+        });
+
+        test("keys of different kinds do not collide", () => {
+            const source = `
+                var m = {1: "number", "1": "string"};
+                print m[1];
+                print m["1"];
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"number"', '"string"']);
+        });
+
+        test("native map helpers keep insertion order", () => {
+            const source = `
+                var m = {"b": 2, "a": 1};
+                m["c"] = 3;
+                print keys(m);
+                print values(m);
+                print has(m, "a");
+                print remove(m, "b");
+                print has(m, "b");
+                print len(m);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                "3",
+                '["b", "a", "c"]',
+                "[2, 1, 3]",
+                "true",
+                "2",
+                "false",
+                "2",
+            ]);
+        });
+
+        test("non-primitive keys throw", () => {
+            expect(() => runSourceAndCapture("var m = {[1]: 2};")).toThrow(
+                /Map keys must be strings, numbers or booleans\./
+            );
+            expect(() =>
+                runSourceAndCapture("var m = {}; m[nil] = 1;")
+            ).toThrow(/Map keys must be strings, numbers or booleans\./);
+            expect(() => runSourceAndCapture("has({}, {});")).toThrow(
+                /Map keys must be strings, numbers or booleans\./
+            );
+        });
+    });
+
+    describe("Match", () => {
+        test("evaluates the first matching arm", () => {
+            const source = `
+                fun describe(x) {
+                    return match (x) {
+                        1 => "one",
+                        "a" => "letter a",
+                        nil => "nothing",
+                        -5..0 => "small",
+                        n if n > 10 => "big " + n,
+                        _ => "other",
+                    };
+                }
+                print describe(1);
+                print describe("a");
+                print describe(nil);
+                print describe(-3);
+                print describe(42);
+                print describe(7);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"one"',
+                '"letter a"',
+                '"nothing"',
+                '"small"',
+                '"big 42"',
+                '"other"',
+            ]);
+        });
+
+        test("bindings are scoped to their arm", () => {
+            const source = `
+                var n = "outer";
+                print match (5) { n => n * 2 };
+                print n;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["10", '"outer"']);
+        });
+
+        test("throws when no arm matches", () => {
+            expect(() =>
+                runSourceAndCapture('match (4) { 3 => "three" };')
+            ).toThrow(/No match arm matched the value\./);
+        });
+
+        test("resolver warns about matches without a catch-all arm", () => {
+            const statements = parseAst(
+                scanTokens('match (1) { 1 => "one", n if n > 1 => "more" };')
+            );
+            const { warnings } = resolve(statements);
+            expect(warnings).toHaveLength(1);
+            expect(warnings[0]?.message).toContain(
+                "Warning at 'match': Match has no catch-all arm"
+            );
+
+            const exhaustive = parseAst(scanTokens("match (1) { _ => 0 };"));
+            expect(resolve(exhaustive).warnings).toHaveLength(0);
+        });
+    });
+
+    describe("Pipes", () => {
+        test("pipes apply functions left to right", () => {
+            const source = `
+                fun double(x) { return x * 2; }
+                fun add(a, b) { return a + b; }
+                print 3 |> double |> add(1);
+                print [1, 2, 3] |> len;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["7", "3"]);
+        });
+
+        test("arity errors point at the pipe", () => {
+            const source = `
+                fun add(a, b) { return a + b; }
+                print 1
+                    |> add(1, 2);
+            `;
+
+            expect(() => runSourceAndCapture(source)).toThrow(
+                /\[line 4\] Error: Expected 2 arguments but got 3\./
+            );
+        });
+    });
+
+    describe("Exceptions", () => {
+        test("runtime errors are caught as Error values", () => {
+            const source = `
+                try {
+                    print 1 / 0;
+                } catch (e) {
+                    print e.message;
+                    print e.line;
+                    print e;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"Division by zero"',
+                "3",
+                "<Error instance>",
+            ]);
+        });
+
+        test("any value can be thrown and finally always runs", () => {
+            const source = `
+                try {
+                    throw "boom";
+                } catch (e) {
+                    print e;
+                } finally {
+                    print "cleanup";
+                }
+                try {
+                    try { throw 1; } finally { print "inner"; }
+                } catch (e) {
+                    print e;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"boom"', '"cleanup"', '"inner"', "1"]);
+        });
+
+        test("return and break pass through finally", () => {
+            const source = `
+                fun f() {
+                    try {
+                        return "returned";
+                    } catch (e) {
+                        print "not caught";
+                    } finally {
+                        print "finally";
+                    }
+                }
+                print f();
+                while (true) {
+                    try { break; } finally { print "after break"; }
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"finally"',
+                '"returned"',
+                '"after break"',
+            ]);
+        });
+
+        test("Error can be constructed and subclassed", () => {
+            const source = `
+                class NotFound < Error {
+                    init(name) {
+                        super.init(name + " not found");
+                        this.name = name;
+                    }
+                }
+                try {
+                    throw NotFound("file");
+                } catch (e) {
+                    print e.message;
+                    print e.name;
+                    print e.line;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"file not found"', '"file"', "9"]);
+        });
+
+        test("a created error takes the line it is first thrown from", () => {
+            const source = `
+                var error = Error("x");
+                print error.line;
+                try {
+                    try {
+                        throw error;
+                    } catch (e) {
+                        throw e;
+                    }
+                } catch (e) {
+                    print e.line;
+                }
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["nil", "6"]);
+        });
+
+        test("uncaught throws surface as runtime errors", () => {
+            expect(() =>
+                runSourceAndCapture('throw Error("unhandled");')
+            ).toThrow(/\[line 1\] Error: Uncaught Error: unhandled/);
+            expect(() => runSourceAndCapture('throw "oops";')).toThrow(
+                /Uncaught "oops"/
+            );
+        });
+    });
+    describe("Modules", () => {
+        test("imports a module under an alias", () => {
+            const main = writeModules({
+                "math.lox": `
+                    export fun square(x) { return x * x; }
+                    export var answer = 42;
+                    var hidden = 1;
+                `,
+            });
+
+            const outputs = runSourceAndCapture(
+                `
+                import "math.lox" as math;
+                print math.square(4);
+                print math.answer;
+                `,
+                main
+            );
+            expect(outputs).toEqual(["16", "42"]);
+        });
+
+        test("imports named exports and evaluates a module once", () => {
+            const main = writeModules({
+                "counter.lox": `
+                    print "loading";
+                    export var start = 10;
+                `,
+                "other.lox": `
+                    import "counter.lox" as counter;
+                    export var next = counter.start + 1;
+                `,
+            });
+
+            const outputs = runSourceAndCapture(
+                `
+                import { start } from "counter.lox";
+                import { next } from "other.lox";
+                print start + next;
+                `,
+                main
+            );
+            expect(outputs).toEqual(['"loading"', "21"]);
+        });
+
+        test("named imports copy the value at import time", () => {
+            const main = writeModules({
+                "counter.lox": `
+                    export var count = 0;
+                    export fun bump() { count = count + 1; }
+                `,
+            });
+
+            const outputs = runSourceAndCapture(
+                `
+                import "counter.lox" as counter;
+                import { count, bump } from "counter.lox";
+                var _ = bump();
+                print count;
+                print counter.count;
+                `,
+                main
+            );
+            expect(outputs).toEqual(["0", "1"]);
+        });
+
+        test("only exported names are visible", () => {
+            const main = writeModules({
+                "lib.lox": "var hidden = 1;",
+            });
+
+            expect(() =>
+                runSourceAndCapture(
+                    'import "lib.lox" as lib; lib.hidden;',
+                    main
+                )
+            ).toThrow("Module 'lib' has no export 'hidden'.");
+            expect(() =>
+                runSourceAndCapture('import { hidden } from "lib.lox";', main)
+            ).toThrow("Module 'lib' has no export 'hidden'.");
+        });
+
+        test("named imports are checked before anything runs", () => {
+            const main = writeModules({
+                "lib.lox": 'print "loading"; export var shown = 1;',
+            });
+
+            expect(() =>
+                runSourceAndCapture(
+                    'print "main"; import { shown, nope } from "lib.lox";',
+                    main
+                )
+            ).toThrow(
+                /^Resolver error\n\[line 1\] Error at 'nope': Module 'lib' has no export 'nope'\./
+            );
+        });
+
+        test("reports circular and missing imports", () => {
+            const main = writeModules({
+                "a.lox": 'import "b.lox" as b;',
+                "b.lox": 'import "a.lox" as a;',
+            });
+
+            expect(() =>
+                runSourceAndCapture('import "a.lox" as a;', main)
+            ).toThrow(/Circular import: .*a\.lox -> .*b\.lox -> .*a\.lox\./);
+            expect(() =>
+                runSourceAndCapture('import "missing.lox" as m;', main)
+            ).toThrow("Can't find module 'missing.lox'.");
+        });
+    });
+
+    describe("Strings", () => {
+        test("interpolates expressions into strings", () => {
+            const source = `
+                var count = 2;
+                var names = ["a", "b"];
+                print "Count: \${count + 1}";
+                print "\${names[0]}-\${ {"k": "v"}["k"] } \${"nested \${count}"}";
+                print "\\\${literal}";
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"Count: 3"',
+                '"a-v nested 2"',
+                '"${literal}"',
+            ]);
+        });
+
+        test("interpolation only accepts numbers and strings", () => {
+            expect(() => runSourceAndCapture('"value: ${nil}";')).toThrow(
+                "Interpolated values must be numbers or strings"
+            );
+        });
+    });
+
+    describe("Conditionals", () => {
+        test("conditional operator only evaluates the chosen branch", () => {
+            const source = `
+                fun fail() { throw "evaluated"; }
+                print true ? "yes" : fail();
+                print false ? fail() : "no";
+                var n = 5;
+                print n < 0 ? "negative" : n == 0 ? "zero" : "positive";
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"yes"', '"no"', '"positive"']);
+        });
+
+        test("nil-coalescing only falls back on nil", () => {
+            const source = `
+                print nil ?? "default";
+                print false ?? "default";
+                print 0 ?? "default";
+                print nil ?? nil ?? 3;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"default"', "false", "0", "3"]);
+        });
+
+        test("optional calls and gets short-circuit on nil", () => {
+            const source = `
+                class Button {
+                    init(handler) { this.handler = handler; }
+                }
+                fun greet(name) { return "hi " + name; }
+                var callback = nil;
+                print callback?.("x");
+                print greet?.("bob");
+                var button = nil;
+                print button?.handler;
+                print Button(greet).handler?.("ann");
+                print Button(nil).handler?.("ann") ?? "no handler";
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                "nil",
+                '"hi bob"',
+                "nil",
+                '"hi ann"',
+                '"no handler"',
+            ]);
+        });
+
+        test("a nil before ?. skips the rest of the chain", () => {
+            const source = `
+                class Box {
+                    init(items) { this.items = items; }
+                    first() { return this.items[0]; }
+                }
+                var a = nil;
+                print a?.greet();
+                print a?.items[0].name;
+                print Box([1])?.first();
+                print (a?.items)?.size;
+                print 2 |> a?.add(1);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["nil", "nil", "1", "nil", "nil"]);
+            expect(() =>
+                runSourceAndCapture("var a = nil; print (a?.items).size;")
+            ).toThrow(
+                "Only instances, modules and generators have properties."
+            );
+        });
+    });
+
+    describe("Compound assignment", () => {
+        test("updates variables in the scope they resolve to", () => {
+            const source = `
+                var total = 1;
+                var label = "n";
+                {
+                    var step = 3;
+                    fun bump() {
+                        total += step;
+                        total *= 2;
+                        total -= 2;
+                        total /= 3;
+                        total %= 3;
+                    }
+                    bump();
+                }
+                label += 1;
+                print total;
+                print label;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"n1"', "2", '"n1"']);
+        });
+
+        test("prefix and postfix increments return new and old values", () => {
+            const source = `
+                var i = 0;
+                print i++;
+                print i;
+                print ++i;
+                print i--;
+                print --i;
+                for (var j = 0; j < 3; j++) print j;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["0", "1", "2", "2", "0", "0", "1", "2"]);
+        });
+
+        test("keeps the operand checks of binary operators", () => {
+            expect(() => runSourceAndCapture("var x = 1; x /= 0;")).toThrow(
+                "Division by zero"
+            );
+            expect(() => runSourceAndCapture("var x = nil; x += 1;")).toThrow(
+                "Operands of += must be numbers or strings"
+            );
+            expect(() => runSourceAndCapture('var s = "a"; s++;')).toThrow(
+                "Operand of ++ must be a number"
+            );
+        });
+    });
+
+    describe("Numeric operators", () => {
+        test("exponent and integer division", () => {
+            const source = `
+                print 2 ** 10;
+                print -2 ** 2;
+                print 2 ** 3 ** 2;
+                print 7 ~/ 2;
+                print -7 ~/ 2;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(["1024", "-4", "512", "3", "-3"]);
+            expect(() => runSourceAndCapture("1 ~/ 0;")).toThrow(
+                "Division by zero"
+            );
+        });
+
+        test("bitwise operators work on 32-bit integers", () => {
+            const source = `
+                print 6 & 3;
+                print 6 | 3;
+                print 6 ^ 3;
+                print ~5;
+                print 1 << 4;
+                print -16 >> 2;
+                print 1 << 31;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                "2",
+                "7",
+                "5",
+                "-6",
+                "16",
+                "-4",
+                "-2147483648",
+            ]);
+        });
+
+        test("bitwise operators reject non-integers", () => {
+            expect(() => runSourceAndCapture("1.5 & 1;")).toThrow(
+                "Operand of & must be an integer"
+            );
+            expect(() => runSourceAndCapture('~"a";')).toThrow(
+                "Operand of ~ must be an integer"
+            );
+        });
+    });
+
+    describe("Generators", () => {
+        test("next resumes the body until the following yield", () => {
+            const source = `
+                fun counter(limit) {
+                    print "start";
+                    for (var i = 0; i < limit; i++) yield i;
+                    return "finished";
+                }
+                var gen = counter(2);
+                print "created";
+                print gen.next();
+                print gen.next();
+                print gen.done();
+                print gen.next();
+                print gen.done();
+                print gen.next();
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"created"',
+                '"start"',
+                "0",
+                "1",
+                "false",
+                '"finished"',
+                "true",
+                "nil",
+            ]);
+        });
+
+        test("yield evaluates to the value sent to next", () => {
+            const source = `
+                fun echo() {
+                    var received = yield "ready";
+                    while (received != nil) received = yield received * 2;
+                }
+                var gen = echo();
+                print gen.next();
+                print gen.next(4);
+                print gen.next(10);
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"ready"', "8", "20"]);
+        });
+
+        test("yield can pause in the middle of any expression", () => {
+            const source = `
+                fun parts() {
+                    var list = [yield "a", 2];
+                    var map = {"k": yield "b"};
+                    list[yield "c"] = -(yield "d");
+                    print "\${list[0]}, \${list[1]}, \${map["k"]}";
+                    return match (yield "e") {
+                        1 => "one",
+                        _ => "other",
+                    } + (true and (yield "f"));
+                }
+                var gen = parts();
+                print gen.next();
+                print gen.next(1);
+                print gen.next(2);
+                print gen.next(1);
+                print gen.next(4);
+                print gen.next(1);
+                print gen.next("!");
+                print gen.done();
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                '"a"',
+                '"b"',
+                '"c"',
+                '"d"',
+                '"1, -4, 2"',
+                '"e"',
+                '"f"',
+                '"one!"',
+                "true",
+            ]);
+        });
+
+        test("for-in loops over generators, lists, maps and strings", () => {
+            const source = `
+                fun naturals() {
+                    var n = 1;
+                    while (true) yield n++;
+                }
+                for (var n in naturals()) {
+                    if (n > 3) break;
+                    print n;
+                }
+                for (var x in [1, 2, 3]) {
+                    if (x == 2) continue;
+                    print x;
+                }
+                for (var key in {"a": 1}) print key;
+                for (var ch in "hi") print ch;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual([
+                "1",
+                "2",
+                "3",
+                "1",
+                "3",
+                '"a"',
+                '"h"',
+                '"i"',
+            ]);
+        });
+
+        test("generators keep their state across try and nested loops", () => {
+            const source = `
+                fun pairs() {
+                    try {
+                        for (var i = 0; i < 2; i++) {
+                            for (var j = 0; j < 2; j++) yield "\${i}\${j}";
+                        }
+                    } finally {
+                        print "cleanup";
+                    }
+                }
+                var all = "";
+                for (var p in pairs()) all += p + " ";
+                print all;
+            `;
+
+            const outputs = runSourceAndCapture(source);
+            expect(outputs).toEqual(['"cleanup"', '"00 01 10 11 "']);
+        });
+
+        test("yield is only allowed inside functions", () => {
+            expect(() => runSourceAndCapture("yield 1;")).toThrow(
+                "Can't yield outside of a function."
+            );
+            expect(() =>
+                runSourceAndCapture("class A { init() { yield 1; } }")
+            ).toThrow("Can't yield from an initializer.");
+            expect(() =>
+                runSourceAndCapture("fun f(a = yield 1) { return a; } f();")
+            ).toThrow("Can't yield from a parameter's default value.");
+            expect(() => runSourceAndCapture("for (var x in 1) {}")).toThrow(
+                "Can only iterate over lists, maps, strings and generators."
+            );
+        });
+    });
+
+    describe("Async", () => {
+        test("async calls run until their first await and resume in order", async () => {
+            const source = `
+                async fun task(name, ms) {
+                    print name + " start";
+                    await sleep(ms);
+                    print name + " end";
+                    return name;
+                }
+                async fun main() {
+                    var slow = task("slow", 20);
+                    var fast = task("fast", 5);
+                    print await slow;
+                    print await fast;
+                    print await 1;
+                }
+                main();
+                print "sync";
+            `;
+
+            expect(await runSourceToIdle(source)).toEqual([
+                '"slow start"',
+                '"fast start"',
+                '"sync"',
+                '"fast end"',
+                '"slow end"',
+                '"slow"',
+                '"fast"',
+                "1",
+            ]);
+        });
+
+        test("setTimeout runs the callback after the delay", async () => {
+            const source = `
+                setTimeout(fun () { print "later"; }, 10);
+                setTimeout(fun () { print "sooner"; }, 0);
+                print "now";
+            `;
+
+            expect(await runSourceToIdle(source)).toEqual([
+                '"now"',
+                '"sooner"',
+                '"later"',
+            ]);
+        });
+
+        test("awaiting a failed call throws its error at the await", async () => {
+            const source = `
+                async fun fail() {
+                    await sleep(1);
+                    throw Error("nope");
+                }
+                async fun main() {
+                    try {
+                        await fail();
+                    } catch (error) {
+                        print error.message;
+                    }
+                }
+                main();
+            `;
+
+            expect(await runSourceToIdle(source)).toEqual(['"nope"']);
+        });
+
+        test("errors nothing awaits are uncaught runtime errors", async () => {
+            const source = `
+                async fun fail() {
+                    await sleep(1);
+                    var x = nil;
+                    return x.field;
+                }
+                fail();
+            `;
+
+            await expect(runSourceToIdle(source)).rejects.toThrow(
+                "[line 5] Error: Only instances, modules and generators have properties."
+            );
+        });
+
+        test("errors raised after an await carry the Lox call stack", async () => {
+            const traceAfterAwait = async (source: string) => {
+                try {
+                    await runSourceToIdle(source);
+                } catch (error) {
+                    if (error instanceof RuntimeError) return error.trace;
+                    throw error;
+                }
+                throw new Error("Expected a runtime error.");
+            };
+
+            expect(
+                await traceAfterAwait(`
+                    async fun main() {
+                        await sleep(1);
+                        print nil + 1;
+                    }
+                    main();
+                `)
+            ).toEqual(["main (line 4)", "<script> (line 6)"]);
+            expect(
+                await traceAfterAwait(`
+                    fun boom() { return nil + 1; }
+                    async fun main() {
+                        await sleep(1);
+                        return boom();
+                    }
+                    main();
+                `)
+            ).toEqual(["boom (line 2)", "<script> (line 7)"]);
+        });
+
+        test("await is only allowed inside async functions", () => {
+            expect(() =>
+                runSourceAndCapture("fun f() { await sleep(1); }")
+            ).toThrow("Can't use 'await' outside of an async function.");
+            expect(() =>
+                runSourceAndCapture(
+                    "async fun f(a = await sleep(1)) { return a; } f();"
+                )
+            ).toThrow("Can't use 'await' in a parameter's default value.");
+            expect(() =>
+                runSourceAndCapture("async fun f() { yield 1; }")
+            ).toThrow("Can't yield from an async function.");
+        });
+    });
+
+    describe("Diagnostics", () => {
+        const diagnosticsOf = (source: string) => {
+            try {
+                runSourceAndCapture(source);
+            } catch (error) {
+                if (error instanceof LoxError) {
+                    return error.toDiagnostics("main.lox");
+                }
+                throw error;
+            }
+            throw new Error("Expected an error.");
+        };
+
+        test("errors convert to diagnostics with codes and positions", () => {
+            const diagnostics = diagnosticsOf(`const x = 1;
+{ var a; var a; }
+x = 2;`);
+
+            expect(diagnostics).toEqual([
+                {
+                    code: "LOX3001",
+                    severity: "error",
+                    message:
+                        "Variable with name 'a' already declared in this scope.",
+                    file: "main.lox",
+                    line: 2,
+                    column: 14,
+                    endLine: 2,
+                    endColumn: 15,
+                    notes: [
+                        {
+                            message: "Previously declared here.",
+                            line: 2,
+                            column: 7,
+                        },
+                    ],
+                },
+                {
+                    code: "LOX3003",
+                    severity: "error",
+                    message: "Can't assign to constant 'x'.",
+                    file: "main.lox",
+                    line: 3,
+                    column: 1,
+                    endLine: 3,
+                    endColumn: 2,
+                    notes: [
+                        {
+                            message: "Declared as a constant here.",
+                            line: 1,
+                            column: 7,
+                        },
+                    ],
+                },
+            ]);
+        });
+
+        test("each phase reports its own codes", () => {
+            const codesOf = (source: string) =>
+                diagnosticsOf(source).map(({ code }) => code);
+
+            expect(codesOf("print @;")).toEqual(["LOX1001"]);
+            expect(codesOf("print (1;\n1 = 2;")).toEqual([
+                "LOX2001",
+                "LOX2002",
+            ]);
+            expect(codesOf("return 1;")).toEqual(["LOX3004"]);
+            expect(codesOf("throw 1;")).toEqual(["LOX4003"]);
+        });
+
+        test("runtime diagnostics list the call stack as notes", () => {
+            const [diagnostic] = diagnosticsOf(
+                "fun f() { return nil + 1; }\nf();"
+            );
+
+            expect(diagnostic?.code).toBe("LOX4001");
+            expect(diagnostic?.notes.map(({ message }) => message)).toEqual([
+                "at f (line 1)",
+                "at <script> (line 2)",
+            ]);
+        });
+
+        test("one run reports the errors of every phase", () => {
+            const source = `var a = 1 @ 2;
+print (1 + ;
+fun f() {
+    print 1 +;
+    return 1;
+}
+return 2;`;
+            try {
+                analyze(source);
+            } catch (error) {
+                const diagnostics = (error as LoxError).toDiagnostics(null);
+                expect(
+                    diagnostics.map(({ code, line }) => `${code}@${line}`)
+                ).toEqual(["LOX1001@1", "LOX2001@2", "LOX2001@4", "LOX3004@7"]);
+            }
+            expect.assertions(1);
+        });
+
+        test("errors in imported modules blame the module's file", () => {
+            const main = writeModules({ "bad.lox": "var a = ;" });
+            try {
+                runSourceAndCapture('import "bad.lox";', main);
+            } catch (error) {
+                const [diagnostic] = (error as LoxError).toDiagnostics(main);
+                expect(diagnostic?.file).toBe(join(dirname(main), "bad.lox"));
+            }
+            expect.assertions(1);
+        });
+
+        test("runtime errors in imported modules blame the module's file", () => {
+            const main = writeModules({
+                "top.lox": "print 1 / 0;",
+                "util.lox": "export fun f() {\n    return 1 / 0;\n}",
+            });
+            const sources = [
+                'import "top.lox";',
+                'import { f } from "util.lox";\nf();',
+            ];
+            const files = sources.map((source) => {
+                try {
+                    runSourceAndCapture(source, main);
+                } catch (error) {
+                    const [diagnostic] = (error as LoxError).toDiagnostics(
+                        main
+                    );
+                    return `${diagnostic?.file}:${diagnostic?.line}`;
+                }
+            });
+            expect(files).toEqual([
+                `${join(dirname(main), "top.lox")}:1`,
+                `${join(dirname(main), "util.lox")}:2`,
+            ]);
+        });
+
+        test("runtime errors in the file being run keep its name", () => {
+            const main = writeModules({});
+            try {
+                runSourceAndCapture("print 1 / 0;", main);
+            } catch (error) {
+                const [diagnostic] = (error as LoxError).toDiagnostics(main);
+                expect(diagnostic?.file).toBe(main);
+            }
+            expect.assertions(1);
+        });
+    });
 });
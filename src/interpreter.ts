@@ -1,33 +1,106 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, relative, resolve as resolvePath } from "node:path";
+import { analyze } from "./analyze";
+import { CODES } from "./core/diagnostic";
 import { createEnvironment, type Environment } from "./core/environment";
+import { eventLoop } from "./core/event-loop";
 import {
     BreakError,
     breakError,
+    ContinueError,
+    continueError,
+    LoxError,
+    NativeError,
+    ReturnError,
     returnError,
+    RuntimeError,
     runtimeError,
+    type SourceRange,
+    tailCallError,
+    TailCallError,
+    ThrowError,
+    throwError,
 } from "./core/error";
 import type {
     AssignmentExpr,
+    AwaitExpr,
     BinaryExpr,
     CallExpr,
+    ConditionalExpr,
     Expr,
     FunctionExpr,
+    GetExpr,
     GroupingExpr,
+    IndexExpr,
+    IncrementExpr,
+    IndexSetExpr,
+    InterpolationExpr,
+    ListExpr,
     LiteralExpr,
     LogicalExpr,
+    MapExpr,
+    MatchExpr,
+    OptionalChainExpr,
+    Pattern,
+    SetExpr,
+    SuperExpr,
+    ThisExpr,
     UnaryExpr,
     VariableExpr,
+    YieldExpr,
 } from "./core/expressions";
-import type { Literal } from "./core/literal";
-import { createFunction, isCallable } from "./core/literal";
+import type {
+    Arity,
+    Literal,
+    LoxCallable,
+    LoxClass,
+    LoxFunction,
+    LoxGenerator,
+    LoxList,
+    LoxModule,
+    LoxPromise,
+    MapKey,
+} from "./core/literal";
+import {
+    createClass,
+    createError,
+    createFunction,
+    createGenerator,
+    createList,
+    createMap,
+    createModule,
+    createPromise,
+    isCallable,
+    isClass,
+    isError,
+    isFunction,
+    isGenerator,
+    isInstance,
+    isList,
+    isMap,
+    isMapKey,
+    isModule,
+    isPromise,
+    SUPER_TOKEN,
+    THIS_TOKEN,
+} from "./core/literal";
+import { spanOf } from "./core/span";
 import type {
     BlockStmt,
     BreakStmt,
+    ClassStmt,
+    ContinueStmt,
+    ExportStmt,
     ExprStmt,
+    ForInStmt,
     FunctionStmt,
     IfStmt,
+    ImportStmt,
     PrintStmt,
     ReturnStmt,
     Stmt,
+    ThrowStmt,
+    TryStmt,
     VarDeclStmt,
     WhileStmt,
 } from "./core/statements";
@@ -48,11 +121,77 @@ export interface InterpreterOptions {
      * The resolved locals to use for the interpreter.
      */
     locals?: Map<Expr, number>;
+    /**
+     * The path of the file being interpreted. Imports are resolved relative
+     * to it, or to the working directory when it is not set.
+     */
+    file?: string;
+    /**
+     * The modules loaded so far. Share it between runs to keep modules cached.
+     */
+    modules?: ModuleRegistry;
+    /**
+     * How many Lox calls can be in progress at once before a call fails with
+     * "Stack overflow.". Defaults to `DEFAULT_MAX_CALL_DEPTH`.
+     */
+    maxCallDepth?: number;
+}
+
+/**
+ * Each Lox call takes dozens of JS frames, so Bun's own stack runs out after
+ * a couple thousand of them.
+ */
+export const DEFAULT_MAX_CALL_DEPTH = 1000;
+
+/** How many of the innermost calls a trace lists before eliding the rest. */
+const MAX_TRACE_CALLS = 10;
+
+export interface ModuleRegistry {
+    /** Evaluated modules by absolute path. */
+    cache: Map<string, LoxModule>;
+    /** Absolute paths of the modules being evaluated, outermost first. */
+    loading: string[];
 }
 
 interface Context {
     environment: Environment;
     locals: Map<Expr, number>;
+    file: string | null;
+    modules: ModuleRegistry;
+    /** Names exported by the module being evaluated. */
+    exports: Set<string>;
+    /** The Lox function calls in progress, outermost first. */
+    callStack: CallFrame[];
+    maxCallDepth: number;
+}
+
+interface CallFrame {
+    /** The called function, or class for a constructor call. */
+    name: string;
+    /** The line of the call site. */
+    line: number;
+}
+
+/**
+ * What a body hands back to whoever drives it when it pauses: a generator
+ * body at a `yield`, an async body at an `await`.
+ */
+interface Suspension {
+    type: "yield" | "await";
+    value: Literal;
+    keyword: Token;
+}
+
+/**
+ * Generator and async bodies run their statements and expressions as JS
+ * generators so that they can pause mid-statement. Everything else runs on
+ * the plain evaluator, since driving a JS generator for every node is
+ * several times slower.
+ */
+type Execution<T> = Generator<Suspension, T, Literal>;
+
+export function createModuleRegistry(): ModuleRegistry {
+    return { cache: new Map(), loading: [] };
 }
 
 export function interpret(statements: Stmt[], options?: InterpreterOptions) {
@@ -60,20 +199,43 @@ export function interpret(statements: Stmt[], options?: InterpreterOptions) {
         repl = false,
         environment = createEnvironment(),
         locals = new Map(),
+        file,
+        modules = createModuleRegistry(),
+        maxCallDepth = DEFAULT_MAX_CALL_DEPTH,
     } = options ?? {};
 
-    const context: Context = { environment, locals };
+    const path = file === undefined ? null : resolvePath(file);
+    const context: Context = {
+        environment,
+        locals,
+        file: path,
+        modules,
+        exports: new Set(),
+        callStack: [],
+        maxCallDepth,
+    };
 
-    for (const statement of statements) {
-        let value = executeStmt(statement, context);
-        if (repl && value !== undefined) {
-            const stringValue = stringify(value);
-            console.log(color("darkgray", stringValue));
+    if (path !== null) modules.loading.push(path);
+    try {
+        for (const statement of statements) {
+            try {
+                let value = executeStmt(statement, context);
+                if (repl && value !== undefined) {
+                    const stringValue = stringify(value);
+                    console.log(color("darkgray", stringValue));
+                }
+            } catch (error) {
+                // Host errors raised inside a call are mapped there.
+                const span = spanOf(statement);
+                throw span ? fromHostError(error, span.first, span) : error;
+            }
         }
+    } finally {
+        if (path !== null) modules.loading.pop();
     }
 }
 
-const executeStmt = (stmt: Stmt, context: Context) => {
+const executeStmt = (stmt: Stmt, context: Context): Literal | undefined => {
     switch (stmt.type) {
         case "exprStmt":
             return visitExpressionStmt(stmt, context);
@@ -87,46 +249,366 @@ const executeStmt = (stmt: Stmt, context: Context) => {
             return visitBlockStmt(stmt, context);
         case "whileStmt":
             return visitWhileStmt(stmt, context);
+        case "forInStmt":
+            return visitForInStmt(stmt, context);
         case "breakStmt":
             return visitBreakStmt(stmt);
+        case "continueStmt":
+            return visitContinueStmt(stmt);
         case "function":
             return visitFunctionStmt(stmt, context);
+        case "classDecl":
+            return visitClassStmt(stmt, context);
         case "returnStmt":
             return visitReturnStmt(stmt, context);
+        case "throwStmt":
+            return visitThrowStmt(stmt, context);
+        case "tryStmt":
+            return visitTryStmt(stmt, context);
+        case "importStmt":
+            return visitImportStmt(stmt, context);
+        case "exportStmt":
+            return visitExportStmt(stmt, context);
+        case "errorStmt":
+            // Only reachable if a program with syntax errors gets run.
+            throw stmt.error;
     }
 };
 
 const visitReturnStmt = (expr: ReturnStmt, context: Context) => {
+    if (expr.tailCall) return visitTailCall(expr, expr.tailCall, context);
     const value =
         expr.value === null ? null : evaluateExpr(expr.value, context);
     throw returnError(expr.keyword, value);
 };
 
+const visitThrowStmt = (stmt: ThrowStmt, context: Context) => {
+    throw uncaught(stmt, evaluateExpr(stmt.value, context));
+};
+
+const uncaught = (stmt: ThrowStmt, value: Literal) => {
+    // An error records where it's first thrown, as the ones the interpreter
+    // raises record where they happen.
+    if (isError(value) && value.fields.get("line") === null) {
+        value.fields.set("line", stmt.keyword.line);
+    }
+    return throwError(stmt.keyword, value, `Uncaught ${describeThrown(value)}`);
+};
+
+const describeThrown = (value: Literal) => {
+    const message = isInstance(value) ? value.fields.get("message") : null;
+    if (isInstance(value) && typeof message === "string") {
+        return `${value.klass.name}: ${message}`;
+    }
+    return Bun.stripANSI(stringify(value));
+};
+
+const visitTryStmt = (stmt: TryStmt, context: Context) => {
+    try {
+        executeBlock(stmt.body, context);
+    } catch (error) {
+        const value = caughtValue(error);
+        if (stmt.handler === null || value === undefined) throw error;
+        executeStatements(
+            stmt.handler.body,
+            handlerContext(stmt.handler.name, value, context)
+        );
+    } finally {
+        if (stmt.finalizer !== null) {
+            executeBlock(stmt.finalizer, context);
+        }
+    }
+    return undefined;
+};
+
+/**
+ * The Lox value a `catch` clause receives for the error, or `undefined` if
+ * the error is control flow (`return`, `break`, `continue`) or a host error.
+ */
+const caughtValue = (error: unknown): Literal | undefined => {
+    if (error instanceof ThrowError) return error.value;
+    if (
+        error instanceof ReturnError ||
+        error instanceof BreakError ||
+        error instanceof ContinueError
+    ) {
+        return undefined;
+    }
+    if (error instanceof RuntimeError) {
+        return createError(error.reason, error.token.line);
+    }
+    return undefined;
+};
+
+/** The context a `catch` clause runs in, with the caught value bound. */
+const handlerContext = (
+    name: Token,
+    value: Literal,
+    context: Context
+): Context => {
+    const environment = createEnvironment(context.environment);
+    environment.define(name, value);
+    return { ...context, environment };
+};
+
+const visitImportStmt = (stmt: ImportStmt, context: Context) => {
+    const module = loadModule(stmt.path, context);
+
+    if (stmt.alias !== null) {
+        context.environment.define(stmt.alias, module);
+    }
+    // Named imports are copies, not live bindings; see `ImportStmt`.
+    for (const name of stmt.names) {
+        context.environment.define(name, module.get(name));
+    }
+    return undefined;
+};
+
+/**
+ * Evaluates the module at the path the token names, once per registry, in
+ * its own global environment.
+ */
+const loadModule = (pathToken: Token, context: Context): LoxModule => {
+    const { cache, loading } = context.modules;
+    const base = context.file === null ? process.cwd() : dirname(context.file);
+    const path = resolvePath(base, String(pathToken.literal));
+
+    const cached = cache.get(path);
+    if (cached) return cached;
+
+    if (loading.includes(path)) {
+        const cycle = [...loading.slice(loading.indexOf(path)), path]
+            .map((modulePath) => relative(process.cwd(), modulePath))
+            .join(" -> ");
+        throw runtimeError(pathToken, `Circular import: ${cycle}.`);
+    }
+
+    if (!existsSync(path)) {
+        throw runtimeError(
+            pathToken,
+            `Can't find module '${pathToken.literal}'.`
+        );
+    }
+
+    let statements: Stmt[];
+    let locals: Map<Expr, number>;
+    try {
+        ({ statements, locals } = analyze(readFileSync(path, "utf8"), {
+            file: path,
+        }));
+    } catch (error) {
+        if (!(error instanceof LoxError)) throw error;
+        const header = `In module '${relative(process.cwd(), path)}':`;
+        throw new LoxError(header, [error], path);
+    }
+
+    const environment = createEnvironment();
+    const exports = new Set<string>();
+
+    loading.push(path);
+    try {
+        executeStatements(statements, {
+            environment,
+            locals,
+            file: path,
+            modules: context.modules,
+            exports,
+            callStack: context.callStack,
+            maxCallDepth: context.maxCallDepth,
+        });
+    } finally {
+        loading.pop();
+    }
+
+    const module = createModule(path, environment, exports);
+    cache.set(path, module);
+    return module;
+};
+
+const visitExportStmt = (stmt: ExportStmt, context: Context) => {
+    executeStmt(stmt.declaration, context);
+    context.exports.add(stmt.declaration.name.lexeme);
+    return undefined;
+};
+
 const visitFunctionStmt = (stmt: FunctionStmt, context: Context) => {
-    const fun = createFunction(
-        stmt,
-        context.environment,
-        (declaration, enclosing) =>
-            executeBlock(declaration.body, {
-                ...context,
-                environment: enclosing,
-            })
-    );
+    const fun = makeFunction(stmt, context.environment, context);
     context.environment.define(stmt.name, fun);
     return undefined;
 };
 
+const visitClassStmt = (stmt: ClassStmt, context: Context) => {
+    let superclass: LoxClass | null = null;
+    if (stmt.superclass !== null) {
+        const value = evaluateExpr(stmt.superclass, context);
+        if (!isClass(value)) {
+            throw runtimeError(
+                stmt.superclass.name,
+                "Superclass must be a class."
+            );
+        }
+        superclass = value;
+    }
+
+    context.environment.define(stmt.name, null);
+
+    let environment = context.environment;
+    if (superclass !== null) {
+        environment = createEnvironment(environment);
+        environment.define(SUPER_TOKEN, superclass);
+    }
+
+    const methods = new Map<string, LoxFunction>();
+    for (const method of stmt.methods) {
+        const isInitializer = method.name.lexeme === "init";
+        methods.set(
+            method.name.lexeme,
+            makeFunction(method, environment, context, isInitializer)
+        );
+    }
+
+    const klass = createClass(stmt.name.lexeme, superclass, methods);
+    context.environment.assign(stmt.name, klass, 0);
+    return undefined;
+};
+
+/**
+ * Creates a function whose body runs directly in the scope holding its
+ * parameters, matching the single scope the resolver gives a function.
+ */
+const makeFunction = (
+    declaration: FunctionStmt | FunctionExpr,
+    closure: Environment,
+    context: Context,
+    isInitializer = false
+) =>
+    createFunction(
+        declaration,
+        closure,
+        {
+            execute: (body, environment) =>
+                executeStatements(body, { ...context, environment }),
+            evaluate: (expr, environment) =>
+                evaluateExpr(expr, { ...context, environment }),
+            generate: (name, body, environment) =>
+                makeGenerator(name, body, { ...context, environment }),
+            start: (name, body, environment) =>
+                startTask(name, body, { ...context, environment }),
+        },
+        isInitializer
+    );
+
+/**
+ * Starts a generator body in the environment holding its parameters. The
+ * body runs up to its next `yield` each time the generator is resumed.
+ */
+const makeGenerator = (
+    name: string,
+    body: Stmt[],
+    context: Context
+): LoxGenerator => {
+    const execution = executePausableStatements(body, context);
+
+    return createGenerator(name, (value) => {
+        try {
+            const result = execution.next(value);
+            if (result.done) return { value: null, done: true };
+            return { value: result.value.value, done: false };
+        } catch (error) {
+            if (error instanceof ReturnError) {
+                return { value: error.value, done: true };
+            }
+            if (error instanceof TailCallError) {
+                const value = error.callee.call(error.args);
+                return { value, done: true };
+            }
+            throw error;
+        }
+    });
+};
+
+/**
+ * Starts an async body in the environment holding its parameters. The body
+ * runs up to its first `await` right away, and resumes each time the value
+ * it awaits settles.
+ */
+const startTask = (
+    name: string,
+    body: Stmt[],
+    context: Context
+): LoxPromise => {
+    // The body outlives the calls that started it, so it resumes with a
+    // copy of the call stack as it was when it started.
+    const callStack = [...context.callStack];
+    const execution = executePausableStatements(body, {
+        ...context,
+        callStack,
+    });
+    const promise = createPromise(name, settle(execution, callStack));
+    eventLoop.track(promise);
+    return promise;
+};
+
+/**
+ * Settles an async body's promise. No call is in progress to trace an error
+ * the body raises, so it gets a trace from the call stack the body runs with.
+ */
+const settle = async (
+    execution: Execution<undefined>,
+    callStack: CallFrame[]
+): Promise<Literal> => {
+    try {
+        return await driveTask(execution);
+    } catch (error) {
+        if (error instanceof RuntimeError && !error.trace.length) {
+            error.trace = traceOf(callStack, error.token.line);
+        }
+        throw error;
+    }
+};
+
+/**
+ * Drives an async body to completion. An awaited promise that fails throws
+ * its error back into the body at the `await`, where `try` can catch it.
+ */
+const driveTask = async (execution: Execution<undefined>): Promise<Literal> => {
+    try {
+        let step = execution.next();
+        while (!step.done) {
+            const { value } = step.value;
+            let result: Literal;
+            try {
+                result = await (isPromise(value) ? value.wait() : value);
+            } catch (error) {
+                step = execution.throw(error);
+                continue;
+            }
+            step = execution.next(result);
+        }
+        return null;
+    } catch (error) {
+        if (error instanceof ReturnError) return error.value;
+        if (error instanceof TailCallError) {
+            return error.callee.call(error.args);
+        }
+        throw error;
+    }
+};
+
 const visitBlockStmt = (stmt: BlockStmt, context: Context) => {
     return executeBlock(stmt.statements, context);
 };
 
 const executeBlock = (statements: Stmt[], context: Context) => {
-    const scopeContext: Context = {
+    return executeStatements(statements, {
         ...context,
         environment: createEnvironment(context.environment),
-    };
+    });
+};
+
+const executeStatements = (statements: Stmt[], context: Context) => {
     for (const statement of statements) {
-        executeStmt(statement, scopeContext);
+        executeStmt(statement, context);
     }
     return undefined;
 };
@@ -156,7 +638,7 @@ const visitVarDeclStmt = (stmt: VarDeclStmt, context: Context) => {
         stmt.initializer === null
             ? null
             : evaluateExpr(stmt.initializer, context);
-    context.environment.define(stmt.name, value);
+    context.environment.define(stmt.name, value, stmt.constant);
     return undefined;
 };
 
@@ -165,17 +647,96 @@ const visitWhileStmt = (stmt: WhileStmt, context: Context) => {
         try {
             executeStmt(stmt.body, context);
         } catch (error) {
-            if (error instanceof BreakError) {
-                return undefined;
-            }
-            throw error;
+            if (!continuesLoop(stmt, error)) return undefined;
+        }
+
+        if (stmt.increment !== null) {
+            evaluateExpr(stmt.increment, context);
         }
     }
     return undefined;
 };
 
+const visitForInStmt = (stmt: ForInStmt, context: Context) => {
+    const iterable = evaluateExpr(stmt.iterable, context);
+
+    for (const value of iterate(iterable, stmt)) {
+        try {
+            executeStmt(stmt.body, loopContext(stmt, value, context));
+        } catch (error) {
+            if (!continuesLoop(stmt, error)) return undefined;
+        }
+    }
+    return undefined;
+};
+
+/** The context one pass of a `for-in` loop runs in, with `value` bound. */
+const loopContext = (
+    stmt: ForInStmt,
+    value: Literal,
+    context: Context
+): Context => {
+    const environment = createEnvironment(context.environment);
+    environment.define(stmt.name, value);
+    return { ...context, environment };
+};
+
+/**
+ * The values a `for (var x in ...)` loop visits: list elements, map keys,
+ * string characters or the values a generator yields.
+ */
+function* iterate(iterable: Literal, stmt: ForInStmt): Generator<Literal> {
+    if (isList(iterable)) {
+        yield* iterable.elements;
+    } else if (isMap(iterable)) {
+        yield* iterable.entries.keys();
+    } else if (typeof iterable === "string") {
+        yield* iterable;
+    } else if (isGenerator(iterable)) {
+        let step = iterable.resume(null);
+        while (!step.done) {
+            yield step.value;
+            step = iterable.resume(null);
+        }
+    } else {
+        throw runtimeError(
+            stmt.keyword,
+            "Can only iterate over lists, maps, strings and generators.",
+            CODES.runtimeError,
+            spanOf(stmt.iterable)
+        );
+    }
+}
+
+/**
+ * Handles an error thrown out of a loop body: returns true if the loop goes
+ * on (a `continue` targeting it), false if it stops (a `break` targeting
+ * it), and rethrows anything else.
+ */
+const continuesLoop = (stmt: WhileStmt | ForInStmt, error: unknown) => {
+    if (error instanceof BreakError && targets(stmt, error.label)) {
+        return false;
+    }
+    if (error instanceof ContinueError && targets(stmt, error.label)) {
+        return true;
+    }
+    throw error;
+};
+
+/** Whether a `break` or `continue` with the given label targets the loop. */
+const targets = (stmt: WhileStmt | ForInStmt, label: string | null) =>
+    label === null || label === stmt.label?.lexeme;
+
 const visitBreakStmt = (stmt: BreakStmt) => {
-    throw breakError(stmt.operator, "Break outside of loop.");
+    throw breakError(
+        stmt.operator,
+        "Break outside of loop.",
+        stmt.label?.lexeme ?? null
+    );
+};
+
+const visitContinueStmt = (stmt: ContinueStmt) => {
+    throw continueError(stmt.keyword, stmt.label?.lexeme ?? null);
 };
 
 function evaluateExpr(ast: Expr, context: Context): Literal {
@@ -190,57 +751,561 @@ function evaluateExpr(ast: Expr, context: Context): Literal {
             return visitBinary(ast, context);
         case "logical":
             return visitLogical(ast, context);
+        case "conditional":
+            return visitConditional(ast, context);
         case "variable":
             return visitVariable(ast, context);
         case "assignment":
             return visitAssignment(ast, context);
+        case "increment":
+            return visitIncrement(ast, context);
         case "call":
             return visitCall(ast, context);
+        case "get":
+            return visitGet(ast, context);
+        case "optionalChain":
+            return visitOptionalChain(ast, context);
+        case "set":
+            return visitSet(ast, context);
+        case "this":
+            return visitThis(ast, context);
+        case "super":
+            return visitSuper(ast, context);
+        case "interpolation":
+            return visitInterpolation(ast, context);
+        case "list":
+            return visitList(ast, context);
+        case "map":
+            return visitMap(ast, context);
+        case "index":
+            return visitIndex(ast, context);
+        case "indexSet":
+            return visitIndexSet(ast, context);
+        case "match":
+            return visitMatch(ast, context);
         case "anonymousFunction":
             return visitFunction(ast, context);
+        case "yield":
+        case "await":
+            return visitSuspension(ast);
+        case "error":
+            throw ast.token.error;
     }
 }
 
 const visitFunction = (expr: FunctionExpr, context: Context) => {
-    return createFunction(expr, context.environment, (declaration, enclosing) =>
-        executeBlock(declaration.body, { ...context, environment: enclosing })
+    return makeFunction(expr, context.environment, context);
+};
+
+/**
+ * Only generator and async bodies can pause; the resolver keeps `yield`
+ * and `await` out of everything else.
+ */
+const visitSuspension = (expr: YieldExpr | AwaitExpr): never => {
+    throw runtimeError(
+        expr.keyword,
+        `Unexpected ${expr.type} outside of a generator or async function.`
     );
 };
 
-const visitAssignment = (expr: AssignmentExpr, context: Context) => {
+const visitGet = (expr: GetExpr, context: Context) => {
+    return getProperty(expr, evaluateExpr(expr.object, context));
+};
+
+const getProperty = (expr: GetExpr, object: Literal) => {
+    if (expr.optional && object === null) return null;
+
+    if (isInstance(object) || isModule(object) || isGenerator(object)) {
+        return object.get(expr.name);
+    }
+
+    throw runtimeError(
+        expr.name,
+        "Only instances, modules and generators have properties.",
+        CODES.runtimeError,
+        spanOf(expr.object)
+    );
+};
+
+const visitOptionalChain = (expr: OptionalChainExpr, context: Context) => {
+    return evaluateChain(expr.expression, context) ?? null;
+};
+
+/**
+ * Evaluates a link of an optional chain, or gives `undefined` once a `?.`
+ * link meets nil so that the links after it are skipped.
+ */
+const evaluateChain = (expr: Expr, context: Context): Literal | undefined => {
+    switch (expr.type) {
+        case "get": {
+            const object = evaluateChain(expr.object, context);
+            if (object === undefined) return undefined;
+            if (expr.optional && object === null) return undefined;
+            return getProperty(expr, object);
+        }
+        case "call": {
+            const callee = evaluateChain(expr.callee, context);
+            if (callee === undefined) return undefined;
+            if (expr.optional && callee === null) return undefined;
+            const args = evaluateArguments(expr, context);
+            const callable = ensureCallable(expr, callee, args);
+            return callValue(expr, callable, args, context);
+        }
+        case "index": {
+            const object = evaluateChain(expr.object, context);
+            if (object === undefined) return undefined;
+            return indexInto(expr, object, evaluateExpr(expr.index, context));
+        }
+        default:
+            return evaluateExpr(expr, context);
+    }
+};
+
+const visitSet = (expr: SetExpr, context: Context) => {
+    const object = ensureInstance(evaluateExpr(expr.object, context), expr);
     const value = evaluateExpr(expr.value, context);
+    object.set(expr.name, value);
+    return value;
+};
+
+const ensureInstance = (object: Literal, expr: SetExpr) => {
+    if (!isInstance(object)) {
+        throw runtimeError(
+            expr.name,
+            "Only instances have fields.",
+            CODES.runtimeError,
+            spanOf(expr.object)
+        );
+    }
+    return object;
+};
+
+const visitInterpolation = (expr: InterpolationExpr, context: Context) => {
+    let result = "";
+    for (const part of expr.parts) {
+        result += interpolated(evaluateExpr(part, context), expr, part);
+    }
+    return result;
+};
 
+const interpolated = (value: Literal, expr: InterpolationExpr, part: Expr) => {
+    if (!isConcatenable(value)) {
+        throw runtimeError(
+            expr.token,
+            "Interpolated values must be numbers or strings",
+            CODES.runtimeError,
+            spanOf(part)
+        );
+    }
+    return value;
+};
+
+const visitList = (expr: ListExpr, context: Context) => {
+    return createList(
+        expr.elements.map((element) => evaluateExpr(element, context))
+    );
+};
+
+const visitMap = (expr: MapExpr, context: Context) => {
+    const entries = new Map<MapKey, Literal>();
+    for (const entry of expr.entries) {
+        const key = mapKey(
+            evaluateExpr(entry.key, context),
+            expr.brace,
+            entry.key
+        );
+        entries.set(key, evaluateExpr(entry.value, context));
+    }
+    return createMap(entries);
+};
+
+const visitIndex = (expr: IndexExpr, context: Context) => {
+    const object = evaluateExpr(expr.object, context);
+    const index = evaluateExpr(expr.index, context);
+    return indexInto(expr, object, index);
+};
+
+const indexInto = (expr: IndexExpr, object: Literal, index: Literal) => {
+    if (isList(object)) {
+        return object.elements[listIndex(object, index, expr)] ?? null;
+    }
+
+    if (isMap(object)) {
+        return (
+            object.entries.get(mapKey(index, expr.bracket, expr.index)) ?? null
+        );
+    }
+
+    throw runtimeError(
+        expr.bracket,
+        "Only lists and maps can be indexed.",
+        CODES.runtimeError,
+        spanOf(expr.object)
+    );
+};
+
+const visitIndexSet = (expr: IndexSetExpr, context: Context) => {
+    const object = evaluateExpr(expr.object, context);
+    const index = evaluateExpr(expr.index, context);
+    const store = indexStore(expr, object, index);
+    return store(evaluateExpr(expr.value, context));
+};
+
+/**
+ * Checks the target of an index assignment before its value is evaluated,
+ * returning a function that stores the value.
+ */
+const indexStore = (
+    expr: IndexSetExpr,
+    object: Literal,
+    index: Literal
+): ((value: Literal) => Literal) => {
+    if (isList(object)) {
+        const position = listIndex(object, index, expr);
+        return (value) => (object.elements[position] = value);
+    }
+
+    if (isMap(object)) {
+        const key = mapKey(index, expr.bracket, expr.index);
+        return (value) => {
+            object.entries.set(key, value);
+            return value;
+        };
+    }
+
+    throw runtimeError(
+        expr.bracket,
+        "Only lists and maps can be indexed.",
+        CODES.runtimeError,
+        spanOf(expr.object)
+    );
+};
+
+const listIndex = (
+    list: LoxList,
+    index: Literal,
+    expr: IndexExpr | IndexSetExpr
+) => {
+    if (typeof index !== "number" || !Number.isInteger(index)) {
+        throw runtimeError(
+            expr.bracket,
+            "List index must be an integer.",
+            CODES.runtimeError,
+            spanOf(expr.index)
+        );
+    }
+    if (index < 0 || index >= list.elements.length) {
+        throw runtimeError(
+            expr.bracket,
+            `List index ${index} out of range for length ${list.elements.length}.`,
+            CODES.runtimeError,
+            spanOf(expr.index)
+        );
+    }
+    return index;
+};
+
+const mapKey = (key: Literal, token: Token, node: Expr) => {
+    if (!isMapKey(key)) {
+        throw runtimeError(
+            token,
+            "Map keys must be strings, numbers or booleans.",
+            CODES.runtimeError,
+            spanOf(node)
+        );
+    }
+    return key;
+};
+
+const visitMatch = (expr: MatchExpr, context: Context) => {
+    const subject = evaluateExpr(expr.subject, context);
+
+    for (const { pattern, guard, body } of expr.arms) {
+        if (!matchesPattern(pattern, subject)) continue;
+
+        const armContext = patternContext(pattern, subject, context);
+        if (guard !== null && !isTruthy(evaluateExpr(guard, armContext))) {
+            continue;
+        }
+
+        return evaluateExpr(body, armContext);
+    }
+
+    throw noArmMatched(expr);
+};
+
+/** The context a match arm runs in, with a binding pattern's name bound. */
+const patternContext = (
+    pattern: Pattern,
+    subject: Literal,
+    context: Context
+): Context => {
+    if (pattern.type !== "binding") return context;
+    const environment = createEnvironment(context.environment);
+    environment.define(pattern.name, subject);
+    return { ...context, environment };
+};
+
+const noArmMatched = (expr: MatchExpr) =>
+    runtimeError(expr.keyword, "No match arm matched the value.");
+
+const matchesPattern = (pattern: Pattern, value: Literal) => {
+    switch (pattern.type) {
+        case "literal":
+            return isEqual(pattern.value, value);
+        case "range":
+            return (
+                typeof value === "number" &&
+                value >= pattern.low &&
+                value <= pattern.high
+            );
+        case "binding":
+        case "wildcard":
+            return true;
+    }
+};
+
+const visitThis = (expr: ThisExpr, context: Context) => {
+    return lookUpVariable(expr.keyword, expr, context);
+};
+
+const visitSuper = (expr: SuperExpr, context: Context) => {
+    const distance = context.locals.get(expr);
+    if (distance === undefined) {
+        throw runtimeError(expr.keyword, "Can't resolve 'super'.");
+    }
+
+    const superclass = context.environment.get(SUPER_TOKEN, distance);
+    const object = context.environment.get(THIS_TOKEN, distance - 1);
+    if (!isClass(superclass) || !isInstance(object)) {
+        throw runtimeError(expr.keyword, "Can't resolve 'super'.");
+    }
+
+    const method = superclass.findMethod(expr.method.lexeme);
+    if (method === null) {
+        throw runtimeError(
+            expr.method,
+            `Undefined property '${expr.method.lexeme}'.`
+        );
+    }
+
+    return method.bind(object);
+};
+
+const visitAssignment = (expr: AssignmentExpr, context: Context) => {
+    return assign(expr, evaluateExpr(expr.value, context), context);
+};
+
+const assign = (expr: AssignmentExpr, value: Literal, context: Context) => {
     const distance = context.locals.get(expr);
     context.environment.assign(expr.name, value, distance);
 
     return value;
 };
 
+const visitIncrement = (expr: IncrementExpr, context: Context) => {
+    const distance = context.locals.get(expr);
+    const current = ensureNumber(
+        context.environment.get(expr.name, distance),
+        expr.operator,
+        expr
+    );
+    const updated =
+        expr.operator.type === "PLUS_PLUS" ? current + 1 : current - 1;
+    context.environment.assign(expr.name, updated, distance);
+
+    return expr.prefix ? updated : current;
+};
+
 const visitCall = (expr: CallExpr, context: Context) => {
     const callee = evaluateExpr(expr.callee, context);
-    const args = expr.args.map((arg) => evaluateExpr(arg, context));
+    if (expr.optional && callee === null) return null;
+
+    const args = evaluateArguments(expr, context);
+    return callValue(expr, ensureCallable(expr, callee, args), args, context);
+};
+
+/**
+ * Makes the call a `return` in tail position returns. A Lox function is
+ * handed to the trampoline in the caller's `call` instead of being called
+ * from here, so the current function's JS frames are gone before it runs.
+ */
+const visitTailCall = (stmt: ReturnStmt, expr: CallExpr, context: Context) => {
+    const callee = evaluateExpr(expr.callee, context);
+    const args = evaluateArguments(expr, context);
+    return tailCall(stmt, expr, callee, args, context);
+};
+
+const tailCall = (
+    stmt: ReturnStmt,
+    expr: CallExpr,
+    callee: Literal,
+    args: Literal[],
+    context: Context
+): never => {
+    const callable = ensureCallable(expr, callee, args);
+    if (isFunction(callable)) {
+        // The callee takes over the current function's frame.
+        const { callStack } = context;
+        const frame = callStack.at(-1);
+        if (frame) {
+            callStack[callStack.length - 1] = {
+                ...frame,
+                name: frameName(callable),
+            };
+        }
+        throw tailCallError(expr.paren, callable, args);
+    }
+    throw returnError(stmt.keyword, callValue(expr, callable, args, context));
+};
+
+const evaluateArguments = (expr: CallExpr, context: Context) => {
+    return expr.args.map((arg) => evaluateExpr(arg, context));
+};
+
+/**
+ * Calls the callee, keeping a frame on the Lox call stack while a Lox
+ * function or class runs so that errors raised inside it get a trace.
+ */
+const callValue = (
+    expr: CallExpr,
+    callee: LoxCallable,
+    args: Literal[],
+    context: Context
+) => {
+    const { callStack } = context;
+    const traced = isFunction(callee) || isClass(callee);
+    if (traced) {
+        if (callStack.length >= context.maxCallDepth) {
+            throw runtimeError(
+                expr.paren,
+                "Stack overflow.",
+                CODES.stackOverflow
+            );
+        }
+        callStack.push({ name: frameName(callee), line: expr.paren.line });
+    }
+    try {
+        return callee.call(args, context.environment);
+    } catch (thrown) {
+        const error = fromHostError(thrown, expr.paren);
+        if (traced && error instanceof RuntimeError && !error.trace.length) {
+            error.trace = traceOf(callStack, error.token.line);
+        }
+        throw error;
+    } finally {
+        if (traced) callStack.pop();
+    }
+};
+
+/**
+ * Reports errors from natives, the host running out of stack before the
+ * call depth limit is reached, and any other host error as runtime errors
+ * at the token.
+ */
+const fromHostError = (
+    error: unknown,
+    token: Token,
+    range: SourceRange | null = null
+) => {
+    if (error instanceof NativeError) {
+        return runtimeError(token, error.message);
+    }
+    if (error instanceof LoxError || !(error instanceof Error)) return error;
+    if (
+        error instanceof RangeError &&
+        error.message.startsWith("Maximum call stack size exceeded")
+    ) {
+        return runtimeError(
+            token,
+            "Stack overflow.",
+            CODES.stackOverflow,
+            range
+        );
+    }
+    return runtimeError(
+        token,
+        `Internal error: ${error.message}`,
+        CODES.unknown,
+        range
+    );
+};
+
+const frameName = (callee: LoxFunction | LoxClass) => {
+    if (isClass(callee)) return callee.name;
+    const { declaration } = callee;
+    return declaration.type === "function"
+        ? declaration.name.lexeme
+        : "anonymous";
+};
+
+/**
+ * Describes the calls in progress, innermost first. Each function is at
+ * the line of the call it was making, and the innermost one at `line`.
+ * Calls past the innermost `MAX_TRACE_CALLS` are elided.
+ */
+const traceOf = (callStack: CallFrame[], line: number) => {
+    const calls: string[] = [];
+    for (const frame of [...callStack].reverse()) {
+        calls.push(`${frame.name} (line ${line})`);
+        line = frame.line;
+    }
+    const elided = calls.length - MAX_TRACE_CALLS;
+    const trace =
+        elided > 0
+            ? [...calls.slice(0, MAX_TRACE_CALLS), `... ${elided} more`]
+            : calls;
+    return [...trace, `<script> (line ${line})`];
+};
+
+const ensureCallable = (
+    expr: CallExpr,
+    callee: Literal,
+    args: Literal[]
+): LoxCallable => {
     if (!isCallable(callee)) {
-        throw runtimeError(expr.paren, "Can only call functions and classes.");
+        throw runtimeError(
+            expr.paren,
+            "Can only call functions and classes.",
+            CODES.runtimeError,
+            spanOf(expr.callee)
+        );
     }
-    if (args.length !== callee.arity) {
+    const { min, max } = callee.arity;
+    if (args.length < min || args.length > max) {
         throw runtimeError(
             expr.paren,
-            `Expected ${callee.arity} arguments but got ${args.length}.`
+            `Expected ${describeArity(callee.arity)} arguments but got ${
+                args.length
+            }.`
         );
     }
-    return callee.call(args, context.environment);
+    return callee;
+};
+
+const describeArity = ({ min, max }: Arity) => {
+    if (min === max) return `${min}`;
+    if (max === Infinity) return `at least ${min}`;
+    return `${min} to ${max}`;
 };
 
 const visitLogical = (expr: LogicalExpr, context: Context) => {
     const left = evaluateExpr(expr.left, context);
+    if (shortCircuits(expr, left)) return left;
+    return evaluateExpr(expr.right, context);
+};
 
-    if (expr.operator.type === "OR") {
-        if (isTruthy(left)) return left;
-    } else {
-        if (!isTruthy(left)) return left;
-    }
+/** Whether the left operand alone decides a logical expression. */
+const shortCircuits = (expr: LogicalExpr, left: Literal) => {
+    if (expr.operator.type === "OR") return isTruthy(left);
+    if (expr.operator.type === "QUESTION_QUESTION") return left !== null;
+    return !isTruthy(left);
+};
 
-    return evaluateExpr(expr.right, context);
+const visitConditional = (expr: ConditionalExpr, context: Context) => {
+    return isTruthy(evaluateExpr(expr.condition, context))
+        ? evaluateExpr(expr.thenBranch, context)
+        : evaluateExpr(expr.elseBranch, context);
 };
 
 const visitVariable = (expr: VariableExpr, context: Context) => {
@@ -259,13 +1324,17 @@ const visitGrouping = (expr: GroupingExpr, context: Context) => {
 };
 
 const visitUnary = (expr: UnaryExpr, context: Context) => {
-    const right = evaluateExpr(expr.right, context);
+    return unaryOperation(expr, evaluateExpr(expr.right, context));
+};
 
+const unaryOperation = (expr: UnaryExpr, right: Literal) => {
     switch (expr.operator.type) {
         case "MINUS":
-            return -ensureNumber(right, expr.operator);
+            return -ensureNumber(right, expr.operator, expr.right);
         case "BANG":
             return !isTruthy(right);
+        case "TILDE":
+            return ~ensureInteger(right, expr.operator, expr.right);
     }
 
     throw runtimeError(
@@ -274,11 +1343,29 @@ const visitUnary = (expr: UnaryExpr, context: Context) => {
     );
 };
 
-const ensureNumber = (value: Literal, operator: Token) => {
+const ensureNumber = (value: Literal, operator: Token, operand: Expr) => {
     if (typeof value !== "number") {
         throw runtimeError(
             operator,
-            `Operand of ${operator.lexeme} must be a number`
+            `Operand of ${operator.lexeme} must be a number`,
+            CODES.runtimeError,
+            spanOf(operand)
+        );
+    }
+    return value;
+};
+
+/**
+ * Bitwise operators work on integers, wrapping them to 32 bits like the
+ * host does.
+ */
+const ensureInteger = (value: Literal, operator: Token, operand: Expr) => {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+        throw runtimeError(
+            operator,
+            `Operand of ${operator.lexeme} must be an integer`,
+            CODES.runtimeError,
+            spanOf(operand)
         );
     }
     return value;
@@ -293,64 +1380,121 @@ const isTruthy = (value: Literal) => {
 const visitBinary = (expr: BinaryExpr, context: Context) => {
     const left = evaluateExpr(expr.left, context);
     const right = evaluateExpr(expr.right, context);
+    return binaryOperation(expr, left, right);
+};
 
+const binaryOperation = (expr: BinaryExpr, left: Literal, right: Literal) => {
     switch (expr.operator.type) {
         case "GREATER":
             return (
-                ensureNumber(left, expr.operator) >
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) >
+                ensureNumber(right, expr.operator, expr.right)
             );
         case "GREATER_EQUAL":
             return (
-                ensureNumber(left, expr.operator) >=
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) >=
+                ensureNumber(right, expr.operator, expr.right)
             );
         case "LESS":
             return (
-                ensureNumber(left, expr.operator) <
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) <
+                ensureNumber(right, expr.operator, expr.right)
             );
         case "LESS_EQUAL":
             return (
-                ensureNumber(left, expr.operator) <=
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) <=
+                ensureNumber(right, expr.operator, expr.right)
             );
         case "MINUS":
             return (
-                ensureNumber(left, expr.operator) -
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) -
+                ensureNumber(right, expr.operator, expr.right)
             );
         case "SLASH":
-            const leftDiv = ensureNumber(left, expr.operator);
-            const rightDiv = ensureNumber(right, expr.operator);
+            const leftDiv = ensureNumber(left, expr.operator, expr.left);
+            const rightDiv = ensureNumber(right, expr.operator, expr.right);
             if (rightDiv === 0) {
-                throw runtimeError(expr.operator, "Division by zero");
+                throw runtimeError(
+                    expr.operator,
+                    "Division by zero",
+                    CODES.runtimeError,
+                    spanOf(expr.right)
+                );
             }
             return leftDiv / rightDiv;
         case "STAR":
             return (
-                ensureNumber(left, expr.operator) *
-                ensureNumber(right, expr.operator)
+                ensureNumber(left, expr.operator, expr.left) *
+                ensureNumber(right, expr.operator, expr.right)
+            );
+        case "STAR_STAR":
+            return (
+                ensureNumber(left, expr.operator, expr.left) **
+                ensureNumber(right, expr.operator, expr.right)
+            );
+        case "TILDE_SLASH":
+            // Truncates like `%`, so `(a ~/ b) * b + a % b == a`.
+            const leftInt = ensureNumber(left, expr.operator, expr.left);
+            const rightInt = ensureNumber(right, expr.operator, expr.right);
+            if (rightInt === 0) {
+                throw runtimeError(
+                    expr.operator,
+                    "Division by zero",
+                    CODES.runtimeError,
+                    spanOf(expr.right)
+                );
+            }
+            return Math.trunc(leftInt / rightInt);
+        case "AMPERSAND":
+            return (
+                ensureInteger(left, expr.operator, expr.left) &
+                ensureInteger(right, expr.operator, expr.right)
+            );
+        case "PIPE":
+            return (
+                ensureInteger(left, expr.operator, expr.left) |
+                ensureInteger(right, expr.operator, expr.right)
+            );
+        case "CARET":
+            return (
+                ensureInteger(left, expr.operator, expr.left) ^
+                ensureInteger(right, expr.operator, expr.right)
+            );
+        case "LESS_LESS":
+            return (
+                ensureInteger(left, expr.operator, expr.left) <<
+                ensureInteger(right, expr.operator, expr.right)
+            );
+        case "GREATER_GREATER":
+            return (
+                ensureInteger(left, expr.operator, expr.left) >>
+                ensureInteger(right, expr.operator, expr.right)
             );
         case "PERCENT":
-            const leftNum = ensureNumber(left, expr.operator);
-            const rightNum = ensureNumber(right, expr.operator);
+            const leftNum = ensureNumber(left, expr.operator, expr.left);
+            const rightNum = ensureNumber(right, expr.operator, expr.right);
             if (rightNum === 0) {
-                throw runtimeError(expr.operator, "Division by zero");
+                throw runtimeError(
+                    expr.operator,
+                    "Division by zero",
+                    CODES.runtimeError,
+                    spanOf(expr.right)
+                );
             }
             return leftNum % rightNum;
         case "PLUS":
-            const types = [typeof left, typeof right];
-            if (types.every((type) => type === "number")) {
-                return (left as number) + (right as number);
+            if (typeof left === "number" && typeof right === "number") {
+                return left + right;
             }
-            if (types.every((type) => type === "string" || type === "number")) {
+            if (isConcatenable(left) && isConcatenable(right)) {
                 return `${left}${right}`;
             }
 
             throw runtimeError(
                 expr.operator,
-                `Operands of ${expr.operator.lexeme} must be numbers or strings`
+                `Operands of ${expr.operator.lexeme} must be numbers or strings`,
+                CODES.runtimeError,
+                spanOf(expr)
             );
         case "EQUAL_EQUAL":
             return isEqual(left, right);
@@ -364,7 +1508,424 @@ const visitBinary = (expr: BinaryExpr, context: Context) => {
     );
 };
 
+/**
+ * Whether `+` and string interpolation can join the value into a string.
+ */
+const isConcatenable = (value: Literal): value is string | number =>
+    typeof value === "string" || typeof value === "number";
+
 const isEqual = (a: Literal, b: Literal) => {
     if (a === null || a === undefined) return b === null || b === undefined;
     return a === b;
 };
+
+/**
+ * Runs a statement of a generator or async body, handing a `Suspension` to
+ * whoever drives the body at each `yield` and `await`. This mirrors
+ * `executeStmt`, which runs the statements that can't pause.
+ */
+function* executePausable(
+    stmt: Stmt,
+    context: Context
+): Execution<Literal | undefined> {
+    switch (stmt.type) {
+        case "exprStmt":
+            return yield* evaluatePausable(stmt.expression, context);
+        case "ifStmt":
+            return yield* visitPausableIf(stmt, context);
+        case "printStmt":
+            return yield* visitPausablePrint(stmt, context);
+        case "varDecl":
+            return yield* visitPausableVarDecl(stmt, context);
+        case "block":
+            return yield* executePausableBlock(stmt.statements, context);
+        case "whileStmt":
+            return yield* visitPausableWhile(stmt, context);
+        case "forInStmt":
+            return yield* visitPausableForIn(stmt, context);
+        case "returnStmt":
+            return yield* visitPausableReturn(stmt, context);
+        case "throwStmt":
+            throw uncaught(stmt, yield* evaluatePausable(stmt.value, context));
+        case "tryStmt":
+            return yield* visitPausableTry(stmt, context);
+        default:
+            // Jumps, declarations without expressions of their own and
+            // top-level module statements.
+            return executeStmt(stmt, context);
+    }
+}
+
+function* executePausableBlock(
+    statements: Stmt[],
+    context: Context
+): Execution<undefined> {
+    return yield* executePausableStatements(statements, {
+        ...context,
+        environment: createEnvironment(context.environment),
+    });
+}
+
+function* executePausableStatements(
+    statements: Stmt[],
+    context: Context
+): Execution<undefined> {
+    for (const statement of statements) {
+        yield* executePausable(statement, context);
+    }
+    return undefined;
+}
+
+function* visitPausableIf(
+    stmt: IfStmt,
+    context: Context
+): Execution<undefined> {
+    const condition = yield* evaluatePausable(stmt.condition, context);
+    if (isTruthy(condition)) {
+        yield* executePausable(stmt.thenBranch, context);
+    } else if (stmt.elseBranch) {
+        yield* executePausable(stmt.elseBranch, context);
+    }
+    return undefined;
+}
+
+function* visitPausablePrint(
+    stmt: PrintStmt,
+    context: Context
+): Execution<undefined> {
+    const value = yield* evaluatePausable(stmt.expression, context);
+    console.log(stringify(value));
+    return undefined;
+}
+
+function* visitPausableVarDecl(
+    stmt: VarDeclStmt,
+    context: Context
+): Execution<undefined> {
+    const value =
+        stmt.initializer === null
+            ? null
+            : yield* evaluatePausable(stmt.initializer, context);
+    context.environment.define(stmt.name, value, stmt.constant);
+    return undefined;
+}
+
+function* visitPausableWhile(
+    stmt: WhileStmt,
+    context: Context
+): Execution<undefined> {
+    while (isTruthy(yield* evaluatePausable(stmt.condition, context))) {
+        try {
+            yield* executePausable(stmt.body, context);
+        } catch (error) {
+            if (!continuesLoop(stmt, error)) return undefined;
+        }
+
+        if (stmt.increment !== null) {
+            yield* evaluatePausable(stmt.increment, context);
+        }
+    }
+    return undefined;
+}
+
+function* visitPausableForIn(
+    stmt: ForInStmt,
+    context: Context
+): Execution<undefined> {
+    const iterable = yield* evaluatePausable(stmt.iterable, context);
+
+    for (const value of iterate(iterable, stmt)) {
+        try {
+            yield* executePausable(
+                stmt.body,
+                loopContext(stmt, value, context)
+            );
+        } catch (error) {
+            if (!continuesLoop(stmt, error)) return undefined;
+        }
+    }
+    return undefined;
+}
+
+function* visitPausableReturn(
+    stmt: ReturnStmt,
+    context: Context
+): Execution<never> {
+    const expr = stmt.tailCall;
+    if (expr) {
+        const callee = yield* evaluatePausable(expr.callee, context);
+        const args = yield* evaluatePausableArguments(expr, context);
+        return tailCall(stmt, expr, callee, args, context);
+    }
+    const value =
+        stmt.value === null
+            ? null
+            : yield* evaluatePausable(stmt.value, context);
+    throw returnError(stmt.keyword, value);
+}
+
+function* visitPausableTry(
+    stmt: TryStmt,
+    context: Context
+): Execution<undefined> {
+    try {
+        yield* executePausableBlock(stmt.body, context);
+    } catch (error) {
+        const value = caughtValue(error);
+        if (stmt.handler === null || value === undefined) throw error;
+        yield* executePausableStatements(
+            stmt.handler.body,
+            handlerContext(stmt.handler.name, value, context)
+        );
+    } finally {
+        if (stmt.finalizer !== null) {
+            yield* executePausableBlock(stmt.finalizer, context);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Evaluates an expression of a generator or async body. This mirrors
+ * `evaluateExpr`, which evaluates the expressions that can't pause.
+ */
+function* evaluatePausable(ast: Expr, context: Context): Execution<Literal> {
+    switch (ast.type) {
+        case "grouping":
+            return yield* evaluatePausable(ast.expression, context);
+        case "unary":
+            return unaryOperation(
+                ast,
+                yield* evaluatePausable(ast.right, context)
+            );
+        case "binary":
+            return yield* visitPausableBinary(ast, context);
+        case "logical":
+            return yield* visitPausableLogical(ast, context);
+        case "conditional":
+            return isTruthy(yield* evaluatePausable(ast.condition, context))
+                ? yield* evaluatePausable(ast.thenBranch, context)
+                : yield* evaluatePausable(ast.elseBranch, context);
+        case "assignment":
+            return assign(
+                ast,
+                yield* evaluatePausable(ast.value, context),
+                context
+            );
+        case "call":
+            return yield* visitPausableCall(ast, context);
+        case "get":
+            return getProperty(
+                ast,
+                yield* evaluatePausable(ast.object, context)
+            );
+        case "optionalChain":
+            return (
+                (yield* evaluatePausableChain(ast.expression, context)) ?? null
+            );
+        case "set":
+            return yield* visitPausableSet(ast, context);
+        case "interpolation":
+            return yield* visitPausableInterpolation(ast, context);
+        case "list":
+            return yield* visitPausableList(ast, context);
+        case "map":
+            return yield* visitPausableMap(ast, context);
+        case "index":
+            return yield* visitPausableIndex(ast, context);
+        case "indexSet":
+            return yield* visitPausableIndexSet(ast, context);
+        case "match":
+            return yield* visitPausableMatch(ast, context);
+        case "yield":
+            return yield* visitPausableYield(ast, context);
+        case "await":
+            return yield* visitPausableAwait(ast, context);
+        default:
+            // Leaves, and functions whose bodies run on their own.
+            return evaluateExpr(ast, context);
+    }
+}
+
+function* visitPausableYield(
+    expr: YieldExpr,
+    context: Context
+): Execution<Literal> {
+    const value =
+        expr.value === null
+            ? null
+            : yield* evaluatePausable(expr.value, context);
+    return yield { type: "yield", value, keyword: expr.keyword };
+}
+
+function* visitPausableAwait(
+    expr: AwaitExpr,
+    context: Context
+): Execution<Literal> {
+    const value = yield* evaluatePausable(expr.value, context);
+    return yield { type: "await", value, keyword: expr.keyword };
+}
+
+function* evaluatePausableChain(
+    expr: Expr,
+    context: Context
+): Execution<Literal | undefined> {
+    switch (expr.type) {
+        case "get": {
+            const object = yield* evaluatePausableChain(expr.object, context);
+            if (object === undefined) return undefined;
+            if (expr.optional && object === null) return undefined;
+            return getProperty(expr, object);
+        }
+        case "call": {
+            const callee = yield* evaluatePausableChain(expr.callee, context);
+            if (callee === undefined) return undefined;
+            if (expr.optional && callee === null) return undefined;
+            const args = yield* evaluatePausableArguments(expr, context);
+            const callable = ensureCallable(expr, callee, args);
+            return callValue(expr, callable, args, context);
+        }
+        case "index": {
+            const object = yield* evaluatePausableChain(expr.object, context);
+            if (object === undefined) return undefined;
+            const index = yield* evaluatePausable(expr.index, context);
+            return indexInto(expr, object, index);
+        }
+        default:
+            return yield* evaluatePausable(expr, context);
+    }
+}
+
+function* visitPausableSet(
+    expr: SetExpr,
+    context: Context
+): Execution<Literal> {
+    const object = yield* evaluatePausable(expr.object, context);
+    const instance = ensureInstance(object, expr);
+    const value = yield* evaluatePausable(expr.value, context);
+    instance.set(expr.name, value);
+    return value;
+}
+
+function* visitPausableInterpolation(
+    expr: InterpolationExpr,
+    context: Context
+): Execution<Literal> {
+    let result = "";
+    for (const part of expr.parts) {
+        result += interpolated(
+            yield* evaluatePausable(part, context),
+            expr,
+            part
+        );
+    }
+    return result;
+}
+
+function* visitPausableList(
+    expr: ListExpr,
+    context: Context
+): Execution<Literal> {
+    const elements: Literal[] = [];
+    for (const element of expr.elements) {
+        elements.push(yield* evaluatePausable(element, context));
+    }
+    return createList(elements);
+}
+
+function* visitPausableMap(
+    expr: MapExpr,
+    context: Context
+): Execution<Literal> {
+    const entries = new Map<MapKey, Literal>();
+    for (const entry of expr.entries) {
+        const key = yield* evaluatePausable(entry.key, context);
+        entries.set(
+            mapKey(key, expr.brace, entry.key),
+            yield* evaluatePausable(entry.value, context)
+        );
+    }
+    return createMap(entries);
+}
+
+function* visitPausableIndex(
+    expr: IndexExpr,
+    context: Context
+): Execution<Literal> {
+    const object = yield* evaluatePausable(expr.object, context);
+    const index = yield* evaluatePausable(expr.index, context);
+    return indexInto(expr, object, index);
+}
+
+function* visitPausableIndexSet(
+    expr: IndexSetExpr,
+    context: Context
+): Execution<Literal> {
+    const object = yield* evaluatePausable(expr.object, context);
+    const index = yield* evaluatePausable(expr.index, context);
+    const store = indexStore(expr, object, index);
+    return store(yield* evaluatePausable(expr.value, context));
+}
+
+function* visitPausableMatch(
+    expr: MatchExpr,
+    context: Context
+): Execution<Literal> {
+    const subject = yield* evaluatePausable(expr.subject, context);
+
+    for (const { pattern, guard, body } of expr.arms) {
+        if (!matchesPattern(pattern, subject)) continue;
+
+        const armContext = patternContext(pattern, subject, context);
+        if (
+            guard !== null &&
+            !isTruthy(yield* evaluatePausable(guard, armContext))
+        ) {
+            continue;
+        }
+
+        return yield* evaluatePausable(body, armContext);
+    }
+
+    throw noArmMatched(expr);
+}
+
+function* visitPausableCall(
+    expr: CallExpr,
+    context: Context
+): Execution<Literal> {
+    const callee = yield* evaluatePausable(expr.callee, context);
+    if (expr.optional && callee === null) return null;
+
+    const args = yield* evaluatePausableArguments(expr, context);
+    return callValue(expr, ensureCallable(expr, callee, args), args, context);
+}
+
+function* evaluatePausableArguments(
+    expr: CallExpr,
+    context: Context
+): Execution<Literal[]> {
+    const args: Literal[] = [];
+    for (const arg of expr.args) {
+        args.push(yield* evaluatePausable(arg, context));
+    }
+    return args;
+}
+
+function* visitPausableLogical(
+    expr: LogicalExpr,
+    context: Context
+): Execution<Literal> {
+    const left = yield* evaluatePausable(expr.left, context);
+    if (shortCircuits(expr, left)) return left;
+    return yield* evaluatePausable(expr.right, context);
+}
+
+function* visitPausableBinary(
+    expr: BinaryExpr,
+    context: Context
+): Execution<Literal> {
+    const left = yield* evaluatePausable(expr.left, context);
+    const right = yield* evaluatePausable(expr.right, context);
+    return binaryOperation(expr, left, right);
+}
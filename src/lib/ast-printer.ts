@@ -1,4 +1,4 @@
-import type { Expr } from "../core/expressions";
+import type { Expr, Parameter } from "../core/expressions";
 import * as ex from "../core/expressions";
 import type { Stmt } from "../core/statements";
 
@@ -16,9 +16,9 @@ export function printAst(exprOrStmt: Expr | Stmt[]): string {
                     break;
                 case "varDecl":
                     statements.push(
-                        `(var ${stmt.name.lexeme} ${printExpr(
-                            stmt.initializer ?? ex.literal(null)
-                        )})`
+                        `(${stmt.constant ? "const" : "var"} ${
+                            stmt.name.lexeme
+                        } ${printExpr(stmt.initializer ?? ex.literal(null))})`
                     );
                     break;
                 case "block":
@@ -37,13 +37,97 @@ export function printAst(exprOrStmt: Expr | Stmt[]): string {
                     break;
                 case "whileStmt":
                     statements.push(
-                        `(while ${printAst(stmt.condition)} then ${printAst([
+                        `(${
+                            stmt.label ? `${stmt.label.lexeme}: ` : ""
+                        }while ${printAst(stmt.condition)} then ${printAst([
+                            stmt.body,
+                        ])}${
+                            stmt.increment
+                                ? ` step ${printAst(stmt.increment)}`
+                                : ""
+                        })`
+                    );
+                    break;
+                case "forInStmt":
+                    statements.push(
+                        `(${stmt.label ? `${stmt.label.lexeme}: ` : ""}for ${
+                            stmt.name.lexeme
+                        } in ${printAst(stmt.iterable)} ${printAst([
                             stmt.body,
                         ])})`
                     );
                     break;
                 case "breakStmt":
-                    statements.push("(break)");
+                    statements.push(
+                        stmt.label ? `(break ${stmt.label.lexeme})` : "(break)"
+                    );
+                    break;
+                case "continueStmt":
+                    statements.push(
+                        stmt.label
+                            ? `(continue ${stmt.label.lexeme})`
+                            : "(continue)"
+                    );
+                    break;
+                case "returnStmt":
+                    statements.push(
+                        stmt.value
+                            ? `(return ${printExpr(stmt.value)})`
+                            : "(return)"
+                    );
+                    break;
+                case "function":
+                    statements.push(printFunction(stmt.name.lexeme, stmt));
+                    break;
+                case "importStmt":
+                    statements.push(
+                        `(import "${stmt.path.literal}"${
+                            stmt.alias ? ` as ${stmt.alias.lexeme}` : ""
+                        }${stmt.names
+                            .map((name) => ` ${name.lexeme}`)
+                            .join("")})`
+                    );
+                    break;
+                case "exportStmt":
+                    statements.push(`(export ${printAst([stmt.declaration])})`);
+                    break;
+                case "errorStmt":
+                    statements.push("(error)");
+                    break;
+                case "throwStmt":
+                    statements.push(`(throw ${printExpr(stmt.value)})`);
+                    break;
+                case "tryStmt":
+                    statements.push(
+                        `(try (block ${printAst(stmt.body)})${
+                            stmt.handler
+                                ? ` catch ${
+                                      stmt.handler.name.lexeme
+                                  } (block ${printAst(stmt.handler.body)})`
+                                : ""
+                        }${
+                            stmt.finalizer
+                                ? ` finally (block ${printAst(stmt.finalizer)})`
+                                : ""
+                        })`
+                    );
+                    break;
+                case "classDecl":
+                    statements.push(
+                        `(class ${stmt.name.lexeme}${
+                            stmt.superclass
+                                ? ` < ${stmt.superclass.name.lexeme}`
+                                : ""
+                        }${stmt.methods
+                            .map(
+                                (method) =>
+                                    ` ${printFunction(
+                                        method.name.lexeme,
+                                        method
+                                    )}`
+                            )
+                            .join("")})`
+                    );
                     break;
             }
         }
@@ -74,13 +158,95 @@ function printExpr(expr: Expr): string {
             return `(${expr.operator.lexeme} ${printAst(expr.left)} ${printAst(
                 expr.right
             )})`;
+        case "conditional":
+            return `(?: ${printExpr(expr.condition)} ${printExpr(
+                expr.thenBranch
+            )} ${printExpr(expr.elseBranch)})`;
+        case "increment":
+            return expr.prefix
+                ? `(${expr.operator.lexeme}${expr.name.lexeme})`
+                : `(${expr.name.lexeme}${expr.operator.lexeme})`;
         case "call":
-            return `(${printAst(expr.callee)} [${expr.args
-                .map(printExpr)
-                .join(", ")}])`;
-        case "function":
-            return `(${expr.name.lexeme} [${expr.parameters
-                .map((param) => param.lexeme)
-                .join(", ")}] ${expr.body.map(printExpr).join(" ")})`;
+            return `(${printAst(expr.callee)} ${
+                expr.optional ? "?" : ""
+            }[${expr.args.map(printExpr).join(", ")}])`;
+        case "get":
+            return `(${expr.optional ? "?." : "."} ${printAst(expr.object)} ${
+                expr.name.lexeme
+            })`;
+        case "optionalChain":
+            return `(chain ${printAst(expr.expression)})`;
+        case "set":
+            return `(= (. ${printAst(expr.object)} ${
+                expr.name.lexeme
+            }) ${printAst(expr.value)})`;
+        case "this":
+            return "(this)";
+        case "super":
+            return `(super ${expr.method.lexeme})`;
+        case "interpolation":
+            return `(str${expr.parts
+                .map((part) => ` ${printExpr(part)}`)
+                .join("")})`;
+        case "list":
+            return `(list${expr.elements
+                .map((element) => ` ${printExpr(element)}`)
+                .join("")})`;
+        case "map":
+            return `(map${expr.entries
+                .map(
+                    (entry) =>
+                        ` (${printExpr(entry.key)} ${printExpr(entry.value)})`
+                )
+                .join("")})`;
+        case "index":
+            return `(index ${printExpr(expr.object)} ${printExpr(expr.index)})`;
+        case "indexSet":
+            return `(= (index ${printExpr(expr.object)} ${printExpr(
+                expr.index
+            )}) ${printExpr(expr.value)})`;
+        case "match":
+            return `(match ${printExpr(expr.subject)}${expr.arms
+                .map(
+                    (arm) =>
+                        ` (${printPattern(arm.pattern)}${
+                            arm.guard ? ` if ${printExpr(arm.guard)}` : ""
+                        } => ${printExpr(arm.body)})`
+                )
+                .join("")})`;
+        case "anonymousFunction":
+            return printFunction("fun", expr);
+        case "yield":
+            return expr.value ? `(yield ${printExpr(expr.value)})` : "(yield)";
+        case "await":
+            return `(await ${printExpr(expr.value)})`;
+        case "error":
+            return "(error)";
     }
 }
+
+function printPattern(pattern: ex.Pattern): string {
+    switch (pattern.type) {
+        case "literal":
+            return printExpr(ex.literal(pattern.value));
+        case "range":
+            return `${pattern.low}..${pattern.high}`;
+        case "binding":
+            return pattern.name.lexeme;
+        case "wildcard":
+            return "_";
+    }
+}
+
+function printFunction(
+    name: string,
+    fn: { parameters: Parameter[]; body: Stmt[]; isAsync: boolean }
+): string {
+    return `(${fn.isAsync ? "async " : ""}${name} [${fn.parameters
+        .map(({ name, defaultValue, rest }) => {
+            if (rest) return `...${name.lexeme}`;
+            if (defaultValue === null) return name.lexeme;
+            return `${name.lexeme} = ${printExpr(defaultValue)}`;
+        })
+        .join(", ")}] ${printAst(fn.body)})`;
+}
@@ -1,7 +1,24 @@
-import { isCallable, type Literal } from "../core/literal";
+import {
+    isCallable,
+    isGenerator,
+    isInstance,
+    isList,
+    isMap,
+    isModule,
+    isPromise,
+    type Literal,
+} from "../core/literal";
 import { color } from "./colors";
 
 export function stringify(value: Literal): string {
+    return format(value, new Set());
+}
+
+/**
+ * `printing` holds the lists and maps being formatted around the value, so
+ * one that contains itself prints as `[...]` or `{...}` instead of forever.
+ */
+function format(value: Literal, printing: Set<Literal>): string {
     if (value === null || value === undefined) {
         return color("lightgray", "nil");
     }
@@ -19,7 +36,34 @@ export function stringify(value: Literal): string {
         return color("lightgreen", `"${value}"`);
     }
 
-    if (isCallable(value)) {
+    if (isList(value)) {
+        if (printing.has(value)) return "[...]";
+        printing.add(value);
+        const elements = value.elements.map((element) =>
+            format(element, printing)
+        );
+        printing.delete(value);
+        return `[${elements.join(", ")}]`;
+    }
+
+    if (isMap(value)) {
+        if (printing.has(value)) return "{...}";
+        printing.add(value);
+        const entries = [...value.entries].map(
+            ([key, entry]) =>
+                `${format(key, printing)}: ${format(entry, printing)}`
+        );
+        printing.delete(value);
+        return `{${entries.join(", ")}}`;
+    }
+
+    if (
+        isCallable(value) ||
+        isInstance(value) ||
+        isModule(value) ||
+        isGenerator(value) ||
+        isPromise(value)
+    ) {
         return value.toString();
     }
 
@@ -1,7 +1,12 @@
 import { describe, expect, test } from "bun:test";
 import { LoxError } from "./core/error";
+import type * as ex from "./core/expressions";
+import type { Expr } from "./core/expressions";
+import { spanOf } from "./core/span";
+import type * as st from "./core/statements";
+import type { Stmt } from "./core/statements";
 import { printAst } from "./lib/ast-printer";
-import { parseAst } from "./parser";
+import { parseAst, parsePartialAst } from "./parser";
 import { scanTokens } from "./scanner";
 
 describe("Parser", () => {
@@ -78,4 +83,191 @@ describe("Parser", () => {
             expect(String(err)).toContain("[line 1] Error at ';': Expect ')' after expression.");
         }
     });
+
+    test("parses class declarations with superclass and methods", () => {
+        const input = "class B < A { init(x) { this.x = x; } get() { return super.get(); } }";
+        const ast = parseAst(scanTokens(input));
+        expect(printAst(ast)).toBe(
+            "(class B < A (init [x] (= (. (this) x) (x))) (get [] (return ((super get) []))))"
+        );
+    });
+
+    test("parses list literals, indexing and index assignment", () => {
+        const ast = parseAst(scanTokens("xs[0] = [1, xs[1 + 1]];"));
+        expect(printAst(ast)).toBe("(= (index (xs) 0) (list 1 (index (xs) (+ 1 1))))");
+    });
+
+    test("parses map literals in expression position", () => {
+        const ast = parseAst(scanTokens('var m = {"a": 1, 2: [3]};'));
+        expect(printAst(ast)).toBe("(var m (map (a 1) (2 (list 3))))");
+    });
+
+    test("parses labeled loops with labeled break and continue", () => {
+        const ast = parseAst(scanTokens("outer: while (true) { break outer; continue outer; }"));
+        expect(printAst(ast)).toBe("(outer: while true then (block (break outer)\n(continue outer)))");
+    });
+
+    test("keeps the for increment as a separate while clause", () => {
+        const ast = parseAst(scanTokens("for (var i = 0; i < 3; i = i + 1) continue;"));
+        expect(printAst(ast)).toBe(
+            "(block (var i 0)\n(while (< (i) 3) then (continue) step (i = (+ (i) 1))))"
+        );
+    });
+
+    test("parses match arms with patterns and guards", () => {
+        const ast = parseAst(scanTokens('match (x) { 1 => "a", -1..2 => "b", n if n > 3 => n, _ => nil };'));
+        expect(printAst(ast)).toBe("(match (x) (1 => a) (-1..2 => b) (n if (> (n) 3) => (n)) (_ => nil))");
+    });
+
+    test("desugars pipes into calls with the piped value first", () => {
+        const ast = parseAst(scanTokens("x |> f |> g(1);"));
+        expect(printAst(ast)).toBe("((g) [((f) [(x)]), 1])");
+    });
+
+    test("requires catch or finally after a try block", () => {
+        expect(() => parseAst(scanTokens("try { throw 1; }"))).toThrow(
+            "Expect 'catch' or 'finally' after try block."
+        );
+        const ast = parseAst(scanTokens("try { throw 1; } catch (e) { print e; } finally { }"));
+        expect(printAst(ast)).toBe("(try (block (throw 1)) catch e (block (print (e))) finally (block ))");
+    });
+
+    test("parses imports and exports", () => {
+        const ast = parseAst(scanTokens('import "math.lox" as math; import { a, b } from "lib.lox"; export var x = 1;'));
+        expect(printAst(ast)).toBe('(import "math.lox" as math)\n(import "lib.lox" a b)\n(export (var x 1))');
+    });
+
+    test("parses string interpolation into parts", () => {
+        const ast = parseAst(scanTokens('"Count: ${count + 1}!";'));
+        expect(printAst(ast)).toBe("(str Count:  (+ (count) 1) !)");
+    });
+
+    test("parses right-associative conditionals below nil-coalescing", () => {
+        const ast = parseAst(scanTokens("a ? b ?? c : d ? e : f;"));
+        expect(printAst(ast)).toBe("(?: (a) (?? (b) (c)) (?: (d) (e) (f)))");
+    });
+
+    test("parses optional calls and property access", () => {
+        const ast = parseAst(scanTokens("obj?.handler?.(1);"));
+        expect(printAst(ast)).toBe("(chain ((?. (obj) handler) ?[1]))");
+        expect(() => parseAst(scanTokens("obj?.name = 1;"))).toThrow("Invalid assignment target.");
+    });
+
+    test("desugars compound assignment and parses increments", () => {
+        const ast = parseAst(scanTokens("x += y * 2; ++x; x--;"));
+        expect(printAst(ast)).toBe("(x = (+= (x) (* (y) 2)))\n(++x)\n(x--)");
+        expect(() => parseAst(scanTokens("a.b += 1;"))).toThrow("Invalid assignment target.");
+        expect(() => parseAst(scanTokens("1++;"))).toThrow("Invalid ++ target.");
+    });
+
+    test("parses exponents as right-associative and tighter than unary minus", () => {
+        const ast = parseAst(scanTokens("-2 ** 3 ** 2; 2 ** -1;"));
+        expect(printAst(ast)).toBe("(- (** 2 (** 3 2)))\n(** 2 (- 1))");
+    });
+
+    test("parses bitwise operators below arithmetic and above comparison", () => {
+        const ast = parseAst(scanTokens("a | b ^ c & d << 1 + 2 == 0;"));
+        expect(printAst(ast)).toBe("(== (| (a) (^ (b) (& (c) (<< (d) (+ 1 2))))) 0)");
+    });
+
+    test("parses default and rest parameters", () => {
+        const ast = parseAst(scanTokens("fun f(a, b = a * 2, ...rest) {}"));
+        expect(printAst(ast)).toBe("(f [a, b = (* (a) 2), ...rest] )");
+        expect(() => parseAst(scanTokens("fun f(...a, b) {}"))).toThrow("Rest parameter must be last.");
+        expect(() => parseAst(scanTokens("fun f(a = 1, b) {}"))).toThrow(
+            "Parameter without a default can't follow one with a default."
+        );
+    });
+
+    test("parses yield and for-in loops", () => {
+        const ast = parseAst(scanTokens("fun gen() { var x = yield 1; yield; } for (var n in gen()) print n;"));
+        expect(printAst(ast)).toBe("(gen [] (var x (yield 1))\n(yield))\n(for n in ((gen) []) (print (n)))");
+        expect((ast[0] as { isGenerator: boolean }).isGenerator).toBe(true);
+    });
+
+    test("parses const declarations", () => {
+        const ast = parseAst(scanTokens("const x = 1; export const y = x;"));
+        expect(printAst(ast)).toBe("(const x 1)\n(export (const y (x)))");
+        expect(() => parseAst(scanTokens("const x;"))).toThrow("Expect '=' after constant name.");
+    });
+
+    test("parses async functions and await", () => {
+        const ast = parseAst(scanTokens("async fun f() { await g(); } class A { async m() {} }"));
+        expect(printAst(ast)).toBe("(async f [] (await ((g) [])))\n(class A (async m [] ))");
+        expect(() => parseAst(scanTokens("async var x;"))).toThrow("Expect 'fun' after 'async'.");
+    });
+
+    test("attaches doc comments to function and variable declarations", () => {
+        const source = `
+            /// The answer.
+            const answer = 42;
+            /// Greets someone.
+            export async fun greet(name) {}
+            class Greeter {
+                /// Says hi.
+                hi() {}
+            }
+        `;
+        const [constant, exported, klass] = parseAst(scanTokens(source)) as [
+            st.VarDeclStmt,
+            st.ExportStmt,
+            st.ClassStmt,
+        ];
+        expect(constant.doc).toBe("The answer.");
+        expect((exported.declaration as st.FunctionStmt).doc).toBe("Greets someone.");
+        expect(klass.methods[0]?.doc).toBe("Says hi.");
+    });
+
+    test("marks returned calls outside try as tail calls", () => {
+        const source = "fun f() { return g(); return g() + 1; return g?.(); try { return g(); } finally {} }";
+        const [fn] = parseAst(scanTokens(source)) as [st.FunctionStmt];
+        const returns = fn.body.map((stmt) => stmt.type === "returnStmt" && stmt.tailCall !== null);
+        expect(returns).toEqual([true, false, false, false]);
+        const [first] = fn.body as [st.ReturnStmt];
+        expect(first.value).toBe(first.tailCall);
+    });
+
+    test("records the source span of each node", () => {
+        const source = "var total = 1 +\n  f(2) * 3;";
+        const [decl] = parseAst(scanTokens(source)) as [st.VarDeclStmt];
+        const text = (node: Expr | Stmt) => {
+            const span = spanOf(node);
+            return span && [source.slice(span.start, span.end), span.line, span.column];
+        };
+
+        const sum = decl.initializer as ex.BinaryExpr;
+        const product = sum.right as ex.BinaryExpr;
+        expect(text(decl)).toEqual([source, 1, 1]);
+        expect(text(sum)).toEqual(["1 +\n  f(2) * 3", 1, 13]);
+        expect(text(product)).toEqual(["f(2) * 3", 2, 3]);
+        expect(text(product.left)).toEqual(["f(2)", 2, 3]);
+    });
+
+    test("underlines the offending token in parse errors", () => {
+        expect(() => parseAst(scanTokens("print (1 + 2;"))).toThrow(
+            "[line 1] Error at ';': Expect ')' after expression.\n1 | print (1 + 2;\n  |             ^\n"
+        );
+    });
+
+    test("keeps parsing past errors, leaving error nodes in their place", () => {
+        const source = 'print 1 +;\nvar a = @;\nfun f() { print; return 1; }\nprint "open';
+        const { statements, errors } = parsePartialAst(scanTokens(source));
+
+        expect(printAst(statements)).toBe('(error)\n(var a (error))\n(f [] (error)\n(return 1))\n(error)');
+        expect(errors.map((error) => error.reason)).toEqual([
+            "Expect expression.",
+            "Unexpected character: '@'",
+            "Expect expression.",
+            "Unterminated string.",
+        ]);
+        expect(() => parseAst(scanTokens(source))).toThrow("[line 2] Error: Unexpected character: '@'");
+    });
+
+    test("reports a bad escape before an interpolation only once", () => {
+        const source = 'print "bad \\q ${a} end";\nprint 2;';
+        const { statements, errors } = parsePartialAst(scanTokens(source));
+
+        expect(printAst(statements)).toBe("(error)\n(print 2)");
+        expect(errors.map((error) => error.reason)).toEqual(["Invalid escape sequence: \\q"]);
+    });
 });
@@ -1,119 +1,367 @@
-import { LoxError, parseError, ParseError } from "./core/error";
+import { CODES } from "./core/diagnostic";
+import {
+    LoxError,
+    parseError,
+    ParseError,
+    SourceError,
+    type SyntaxError,
+} from "./core/error";
 import type { Expr } from "./core/expressions";
 import * as ex from "./core/expressions";
 import type { Stmt } from "./core/statements";
 import * as st from "./core/statements";
-import type { Token } from "./core/token";
+import { setSpan, spanOf } from "./core/span";
+import { token, type Token } from "./core/token";
 import type { TokenType } from "./core/token-types";
 import type { TokenStream } from "./lib/token-stream";
 import { fromArray, fromIterable } from "./lib/token-stream";
 
+/**
+ * The binary operator each compound assignment applies.
+ */
+const COMPOUND_OPERATORS: Partial<Record<TokenType, TokenType>> = {
+    PLUS_EQUAL: "PLUS",
+    MINUS_EQUAL: "MINUS",
+    STAR_EQUAL: "STAR",
+    SLASH_EQUAL: "SLASH",
+    PERCENT_EQUAL: "PERCENT",
+};
+
 /*
  * Grammar:
  *
  * program        → statement* EOF
  *
  *
- * declaration    → varDecl
+ * declaration    → classDecl
+ *                  | varDecl
+ *                  | constDecl
  *                  | funDecl
+ *                  | importDecl
+ *                  | exportDecl
  *                  | statement
+ * classDecl      → "class" IDENTIFIER ( "<" IDENTIFIER )? "{" ( "async"? function )* "}"
  * varDecl        → "var" IDENTIFIER ( "=" expression )? ";"
- * funDecl        → "fun" function
+ * constDecl      → "const" IDENTIFIER "=" expression ";"
+ * funDecl        → "async"? "fun" function
+ * importDecl     → "import" STRING ( "as" IDENTIFIER )? ";"
+ *                  | "import" "{" IDENTIFIER ( "," IDENTIFIER )* "}" "from" STRING ";"
+ * exportDecl     → "export" ( classDecl | varDecl | constDecl | funDecl )
  * function       → IDENTIFIER "(" parameters? ")" block
- * parameters     → IDENTIFIER ( "," IDENTIFIER )*
+ * parameters     → parameter ( "," parameter )*
+ * parameter      → IDENTIFIER ( "=" expression )? | "..." IDENTIFIER
  *
  *
  * statement      → exprStmt
  *                  | ifStmt
  *                  | printStmt
+ *                  | labeledStmt
  *                  | whileStmt
  *                  | forStmt
  *                  | returnStmt
  *                  | breakStmt
+ *                  | continueStmt
+ *                  | throwStmt
+ *                  | tryStmt
  *                  | block
  * ifStmt         → "if" "(" expression ")" statement ( "else" statement )?
  * printStmt      → "print" expression ";"
  * whileStmt      → "while" "(" expression ")" statement
  * forStmt        → "for" "(" ( varDecl | exprStmt | ";" ) expression? ";" expression? ")" statement
+ *                  | "for" "(" "var" IDENTIFIER "in" expression ")" statement
  * returnStmt     → "return" expression? ";"
- * breakStmt      → "break" ";"
+ * labeledStmt    → IDENTIFIER ":" ( whileStmt | forStmt )
+ * breakStmt      → "break" IDENTIFIER? ";"
+ * continueStmt   → "continue" IDENTIFIER? ";"
+ * throwStmt      → "throw" expression ";"
+ * tryStmt        → "try" block ( "catch" "(" IDENTIFIER ")" block )?
+ *                  ( "finally" block )?
  * block          → "{" declaration* "}"
  * exprStmt       → expression ";"
  *
  *
  * expression     → assignment
- * assignment     → IDENTIFIER "=" assignment
- *                  | logic_or
+ * assignment     → "yield" assignment?
+ *                  | ( call "." )? IDENTIFIER "=" assignment
+ *                  | call "[" expression "]" "=" assignment
+ *                  | IDENTIFIER ( "+=" | "-=" | "*=" | "/=" | "%=" ) assignment
+ *                  | conditional
+ * conditional    → coalesce ( "?" expression ":" conditional )?
+ * coalesce       → pipe ( "??" pipe )*
+ * pipe           → logic_or ( "|>" logic_or )*
  * logic_or       → logic_and ( "or" logic_and )*
  * logic_and      → equality ( "and" equality )*
  * equality       → comparison ( ( "!=" | "==" ) comparison )*
- * comparison     → term ( ( ">" | ">=" | "<" | "<=" ) term )*
+ * comparison     → bit_or ( ( ">" | ">=" | "<" | "<=" ) bit_or )*
+ * bit_or         → bit_xor ( "|" bit_xor )*
+ * bit_xor        → bit_and ( "^" bit_and )*
+ * bit_and        → shift ( "&" shift )*
+ * shift          → term ( ( "<<" | ">>" ) term )*
  * term           → factor ( ( "-" | "+" ) factor )*
- * factor         → unary ( ( "/" | "*" ) unary )*
- * unary          → ( "!" | "-" ) unary
- *                  | call
- * call           → primary ( "(" arguments? ")" )*
+ * factor         → unary ( ( "/" | "*" | "%" | "~/" ) unary )*
+ * unary          → ( "!" | "-" | "~" | "await" ) unary
+ *                  | ( "++" | "--" ) IDENTIFIER
+ *                  | power
+ * power          → postfix ( "**" unary )?
+ * postfix        → call ( "++" | "--" )?
+ * call           → primary ( "(" arguments? ")" | "." IDENTIFIER
+ *                  | "?." "(" arguments? ")" | "?." IDENTIFIER
+ *                  | "[" expression "]" )*
  * arguments      → expression ( "," expression )*
- * primary        → "true" | "false" | "nil"
- *                  | NUMBER | STRING
+ * primary        → "true" | "false" | "nil" | "this"
+ *                  | NUMBER | STRING | interpolation
  *                  | "(" expression ")"
  *                  | IDENTIFIER
- *
- *
- * Note: Try to implement pattern matching and pipes later.
+ *                  | "super" "." IDENTIFIER
+ *                  | "[" arguments? "]"
+ *                  | "{" ( entry ( "," entry )* )? "}"
+ *                  | match
+ * interpolation  → ( INTERPOLATION expression )+ STRING
+ * entry          → expression ":" expression
+ * match          → "match" "(" expression ")" "{" ( arm ( "," arm )* ","? )? "}"
+ * arm            → pattern ( "if" expression )? "=>" expression
+ * pattern        → "_" | IDENTIFIER | STRING | "true" | "false" | "nil"
+ *                  | number ( ".." number )?
+ * number         → "-"? NUMBER
  */
 
 /**
- * @throws {ParseError}
+ * Parses every statement it can. A statement that fails to parse is
+ * skipped up to the next likely statement start and left in the tree as an
+ * ErrorStmt, and an ERROR token where an expression belongs becomes an
+ * ErrorExpr, so later phases still see the rest of the program.
  */
 function parseTokensStream(stream: TokenStream) {
     const statements: Stmt[] = [];
-    const errors: ParseError[] = [];
+    const errors: SourceError[] = [];
+    /** Where the last scanner error ended; see `record`. */
+    let scanErrorEnd = -1;
+    /** Whether the body of the innermost function being parsed yields. */
+    let functionYields = false;
+    /** How many `try` statements of the innermost function enclose us. */
+    let tryDepth = 0;
+
+    /**
+     * Wraps a rule so the node it returns records the tokens it was parsed
+     * from, unless a rule nested inside it already did.
+     */
+    const spanned =
+        <T extends Expr | Stmt>(rule: () => T) =>
+        (): T => {
+            const first = peek();
+            const node = rule();
+            if (spanOf(node) === null) setSpan(node, first, previous());
+            return node;
+        };
 
-    const declaration = (): Stmt => {
-        if (match("FUN")) return functionDeclaration("function");
-        if (match("VAR")) return varDeclaration();
+    const declaration = spanned((): Stmt => {
+        // Doc comments ride on the first token of the declaration.
+        const { doc } = peek();
+        if (match("IMPORT")) return importDeclaration();
+        if (match("EXPORT")) return exportDeclaration(doc);
+        if (match("CLASS")) return classDeclaration();
+        if (match("FUN")) return functionDeclaration("function", false, doc);
+        if (match("ASYNC")) return asyncFunctionDeclaration(doc);
+        if (match("VAR")) return varDeclaration(doc);
+        if (match("CONST")) return constDeclaration(doc);
         return statement();
-    };
-    const varDeclaration = (): Stmt => {
+    });
+    const varDeclaration = (doc: string | null = null): st.VarDeclStmt => {
         const name = consume("IDENTIFIER", "Expect variable name.");
         const initializer = match("EQUAL") ? expression() : null;
         consume("SEMICOLON", "Expect ';' after variable declaration.");
-        return st.varDecl(name, initializer);
+        return st.varDecl(name, initializer, false, doc);
+    };
+    const constDeclaration = (doc: string | null): st.VarDeclStmt => {
+        const name = consume("IDENTIFIER", "Expect constant name.");
+        consume("EQUAL", "Expect '=' after constant name.");
+        const initializer = expression();
+        consume("SEMICOLON", "Expect ';' after constant declaration.");
+        return st.varDecl(name, initializer, true, doc);
+    };
+    const importDeclaration = (): Stmt => {
+        const keyword = previous();
+
+        if (match("LEFT_BRACE")) {
+            const names: Token[] = [];
+            do {
+                names.push(consume("IDENTIFIER", "Expect imported name."));
+            } while (match("COMMA"));
+            consume("RIGHT_BRACE", "Expect '}' after imported names.");
+            consumeWord("from", "Expect 'from' after imported names.");
+            const path = consume("STRING", "Expect module path.");
+            consume("SEMICOLON", "Expect ';' after import.");
+            return st.importStmt(keyword, path, null, names);
+        }
+
+        const path = consume("STRING", "Expect module path.");
+        let alias = null;
+        if (checkWord("as")) {
+            advance();
+            alias = consume("IDENTIFIER", "Expect module name after 'as'.");
+        }
+        consume("SEMICOLON", "Expect ';' after import.");
+        return st.importStmt(keyword, path, alias, []);
+    };
+    const exportDeclaration = (doc: string | null): Stmt => {
+        const keyword = previous();
+        if (match("CLASS")) return st.exportStmt(keyword, classDeclaration());
+        if (match("FUN")) {
+            const declaration = functionDeclaration("function", false, doc);
+            return st.exportStmt(keyword, declaration);
+        }
+        if (match("ASYNC")) {
+            return st.exportStmt(keyword, asyncFunctionDeclaration(doc));
+        }
+        if (match("VAR")) return st.exportStmt(keyword, varDeclaration(doc));
+        if (match("CONST")) {
+            return st.exportStmt(keyword, constDeclaration(doc));
+        }
+        throw errorAt(peek(), "Expect declaration after 'export'.");
     };
-    const functionDeclaration = (kind: string): Stmt => {
+    const classDeclaration = (): st.ClassStmt => {
+        const name = consume("IDENTIFIER", "Expect class name.");
+
+        let superclass = null;
+        if (match("LESS")) {
+            consume("IDENTIFIER", "Expect superclass name.");
+            superclass = ex.variable(previous());
+        }
+
+        consume("LEFT_BRACE", "Expect '{' before class body.");
+        const methods: st.FunctionStmt[] = [];
+        while (!check("RIGHT_BRACE") && !isAtEnd()) {
+            const first = peek();
+            const method = functionDeclaration(
+                "method",
+                match("ASYNC"),
+                first.doc
+            );
+            setSpan(method, first, previous());
+            methods.push(method);
+        }
+        consume("RIGHT_BRACE", "Expect '}' after class body.");
+
+        return st.classDecl(name, superclass, methods);
+    };
+    const functionDeclaration = (
+        kind: string,
+        isAsync: boolean,
+        doc: string | null
+    ): st.FunctionStmt => {
         const name = consume("IDENTIFIER", `Expect ${kind} name.`);
         consume("LEFT_PAREN", `Expect '(' after ${kind} name.`);
-        const parameters: Token[] = [];
+        const parameters = parameterList();
+        consume("LEFT_BRACE", `Expect '{' before ${kind} body.`);
+        const [body, isGenerator] = functionBody();
+        return st.functionStmt(
+            name,
+            parameters,
+            body,
+            isGenerator,
+            isAsync,
+            doc
+        );
+    };
+    const asyncFunctionDeclaration = (doc: string | null): st.FunctionStmt => {
+        consume("FUN", "Expect 'fun' after 'async'.");
+        return functionDeclaration("function", true, doc);
+    };
+    /** Parses a function body, noting whether it yields. */
+    const functionBody = (): [Stmt[], boolean] => {
+        const enclosingYields = functionYields;
+        const enclosingTryDepth = tryDepth;
+        functionYields = false;
+        tryDepth = 0;
+        try {
+            return [blockStatement(), functionYields];
+        } finally {
+            functionYields = enclosingYields;
+            tryDepth = enclosingTryDepth;
+        }
+    };
+    /**
+     * Parses parameters up to and including the closing paren. Parameters
+     * with defaults must come after the required ones, and a rest parameter
+     * comes last.
+     */
+    const parameterList = (): ex.Parameter[] => {
+        const parameters: ex.Parameter[] = [];
         if (!check("RIGHT_PAREN")) {
             do {
                 if (parameters.length >= 255) {
                     errors.push(
                         parseError(
                             peek(),
-                            "Can't have more than 255 parameters."
+                            "Can't have more than 255 parameters.",
+                            CODES.tooManyArguments
                         )
                     );
                 }
-                parameters.push(
-                    consume("IDENTIFIER", "Expect parameter name.")
-                );
+                if (parameters.at(-1)?.rest) {
+                    errors.push(
+                        parseError(
+                            peek(),
+                            "Rest parameter must be last.",
+                            CODES.invalidParameter
+                        )
+                    );
+                }
+
+                const rest = match("DOT_DOT_DOT");
+                const name = consume("IDENTIFIER", "Expect parameter name.");
+                if (rest && check("EQUAL")) {
+                    errors.push(
+                        parseError(
+                            peek(),
+                            "Rest parameter can't have a default value.",
+                            CODES.invalidParameter
+                        )
+                    );
+                }
+
+                const defaultValue = match("EQUAL") ? expression() : null;
+                if (
+                    !rest &&
+                    defaultValue === null &&
+                    parameters.some((p) => p.defaultValue !== null)
+                ) {
+                    errors.push(
+                        parseError(
+                            name,
+                            "Parameter without a default can't follow one with a default.",
+                            CODES.invalidParameter
+                        )
+                    );
+                }
+                parameters.push(ex.parameter(name, defaultValue, rest));
             } while (match("COMMA"));
         }
-        consume("RIGHT_PAREN", `Expect ')' after parameters.`);
-        consume("LEFT_BRACE", `Expect '{' before ${kind} body.`);
-        const body = blockStatement();
-        return st.functionStmt(name, parameters, body);
+        consume("RIGHT_PAREN", "Expect ')' after parameters.");
+        return parameters;
     };
-    const statement = (): Stmt => {
+    const statement = spanned((): Stmt => {
         if (match("IF")) return ifStatement();
         if (match("PRINT")) return printStatement();
         if (match("RETURN")) return returnStatement();
         if (match("WHILE")) return whileStatement();
         if (match("FOR")) return forStatement();
         if (match("BREAK")) return breakStatement();
+        if (match("CONTINUE")) return continueStatement();
+        if (match("THROW")) return throwStatement();
+        if (match("TRY")) return tryStatement();
         if (match("LEFT_BRACE")) return st.block(blockStatement());
+        if (check("IDENTIFIER") && peek(1).type === "COLON") {
+            return labeledStatement();
+        }
         return expressionStatement();
+    });
+    const labeledStatement = (): Stmt => {
+        const label = advance();
+        advance(); // colon
+        if (match("WHILE")) return whileStatement(label);
+        if (match("FOR")) return forStatement(label);
+        throw errorAt(peek(), "Expect loop after label.");
     };
     const ifStatement = (): Stmt => {
         consume("LEFT_PAREN", "Expect '(' after 'if'.");
@@ -123,15 +371,25 @@ function parseTokensStream(stream: TokenStream) {
         const elseBranch = match("ELSE") ? statement() : null;
         return st.ifStmt(condition, thenBranch, elseBranch);
     };
-    const whileStatement = (): Stmt => {
+    const whileStatement = (label: Token | null = null): Stmt => {
         consume("LEFT_PAREN", "Expect '(' after 'while'.");
         const condition = expression();
         consume("RIGHT_PAREN", "Expect ')' after condition.");
         const body = statement();
-        return st.whileStmt(condition, body);
+        return st.whileStmt(condition, body, null, label);
     };
-    const forStatement = (): Stmt => {
+    const forStatement = (label: Token | null = null): Stmt => {
+        const keyword = previous();
         consume("LEFT_PAREN", "Expect '(' after 'for'.");
+        if (check("VAR") && peek(2).type === "IN") {
+            advance();
+            const name = consume("IDENTIFIER", "Expect variable name.");
+            advance();
+            const iterable = expression();
+            consume("RIGHT_PAREN", "Expect ')' after for-in clause.");
+            return st.forInStmt(keyword, name, iterable, statement(), label);
+        }
+
         const initializer = match("SEMICOLON")
             ? null
             : match("VAR")
@@ -144,13 +402,12 @@ function parseTokensStream(stream: TokenStream) {
         const increment = check("RIGHT_PAREN") ? null : expression();
         consume("RIGHT_PAREN", "Expect ')' after for clauses.");
 
-        let body = statement();
-
-        if (increment !== null) {
-            body = st.block([body, st.expr(increment)]);
-        }
-
-        body = st.whileStmt(condition ?? ex.literal(true), body);
+        let body: Stmt = st.whileStmt(
+            condition ?? ex.literal(true),
+            statement(),
+            increment,
+            label
+        );
 
         if (initializer !== null) {
             body = st.block([initializer, body]);
@@ -165,16 +422,73 @@ function parseTokensStream(stream: TokenStream) {
             value = expression();
             consume("SEMICOLON", "Expect ';' after return.");
         }
-        return st.returnStmt(keyword, value);
+        // Inside a `try`, the catch and finally clauses still have to run
+        // after the call, so it isn't in tail position.
+        const tailCall =
+            value?.type === "call" && !value.optional && tryDepth === 0
+                ? value
+                : null;
+        return st.returnStmt(keyword, value, tailCall);
     };
     const breakStatement = (): Stmt => {
+        const keyword = previous();
+        const label = match("IDENTIFIER") ? previous() : null;
         consume("SEMICOLON", "Expect ';' after break.");
-        return st.breakStmt(previous());
+        return st.breakStmt(keyword, label);
+    };
+    const continueStatement = (): Stmt => {
+        const keyword = previous();
+        const label = match("IDENTIFIER") ? previous() : null;
+        consume("SEMICOLON", "Expect ';' after continue.");
+        return st.continueStmt(keyword, label);
+    };
+    const throwStatement = (): Stmt => {
+        const keyword = previous();
+        const value = expression();
+        consume("SEMICOLON", "Expect ';' after thrown value.");
+        return st.throwStmt(keyword, value);
+    };
+    const tryStatement = (): Stmt => {
+        tryDepth++;
+        try {
+            return tryClauses();
+        } finally {
+            tryDepth--;
+        }
+    };
+    const tryClauses = (): Stmt => {
+        const keyword = previous();
+        consume("LEFT_BRACE", "Expect '{' after 'try'.");
+        const body = blockStatement();
+
+        let handler = null;
+        if (match("CATCH")) {
+            consume("LEFT_PAREN", "Expect '(' after 'catch'.");
+            const name = consume("IDENTIFIER", "Expect error variable name.");
+            consume("RIGHT_PAREN", "Expect ')' after error variable.");
+            consume("LEFT_BRACE", "Expect '{' before catch body.");
+            handler = { name, body: blockStatement() };
+        }
+
+        let finalizer = null;
+        if (match("FINALLY")) {
+            consume("LEFT_BRACE", "Expect '{' after 'finally'.");
+            finalizer = blockStatement();
+        }
+
+        if (handler === null && finalizer === null) {
+            throw parseError(
+                keyword,
+                "Expect 'catch' or 'finally' after try block."
+            );
+        }
+
+        return st.tryStmt(body, handler, finalizer);
     };
     const blockStatement = (): Stmt[] => {
         const statements: Stmt[] = [];
         while (!check("RIGHT_BRACE") && !isAtEnd()) {
-            statements.push(declaration());
+            statements.push(recoveringDeclaration(true));
         }
         consume("RIGHT_BRACE", "Expect '}' after block.");
         return statements;
@@ -191,24 +505,37 @@ function parseTokensStream(stream: TokenStream) {
     };
 
     const expression = (): Expr => functionExpr();
-    const functionExpr = (): Expr => {
-        if (!match("FUN")) return assignment();
+    const functionExpr = spanned((): Expr => {
+        const isAsync = match("ASYNC");
+        if (isAsync) consume("FUN", "Expect 'fun' after 'async'.");
+        else if (!match("FUN")) return assignment();
         consume("LEFT_PAREN", "Expect '(' after 'fun'.");
-        const parameters: Token[] = [];
-        if (!check("RIGHT_PAREN")) {
-            do {
-                parameters.push(
-                    consume("IDENTIFIER", "Expect parameter name.")
-                );
-            } while (match("COMMA"));
-        }
-        consume("RIGHT_PAREN", "Expect ')' after parameters.");
+        const parameters = parameterList();
         consume("LEFT_BRACE", "Expect '{' before function body.");
-        const body = blockStatement();
-        return ex.functionExpr(parameters, body);
+        const [body, isGenerator] = functionBody();
+        return ex.functionExpr(parameters, body, isGenerator, isAsync);
+    });
+    const yieldExpression = (): Expr => {
+        const keyword = previous();
+        functionYields = true;
+
+        const endsValue = [
+            "SEMICOLON",
+            "RIGHT_PAREN",
+            "RIGHT_BRACKET",
+            "RIGHT_BRACE",
+            "COMMA",
+            "COLON",
+        ] as const;
+        if (endsValue.some((type) => check(type))) {
+            return ex.yieldExpr(keyword, null);
+        }
+        return ex.yieldExpr(keyword, assignment());
     };
-    const assignment = (): Expr => {
-        const expr = or();
+    const assignment = spanned((): Expr => {
+        if (match("YIELD")) return yieldExpression();
+
+        const expr = conditional();
 
         if (match("EQUAL")) {
             const equals = previous();
@@ -217,11 +544,95 @@ function parseTokensStream(stream: TokenStream) {
             if (expr.type === "variable") {
                 return ex.assignment(expr.name, value);
             }
+            if (expr.type === "get" && !expr.optional) {
+                return ex.set(expr.object, expr.name, value);
+            }
+            if (expr.type === "index") {
+                return ex.indexSet(
+                    expr.object,
+                    expr.bracket,
+                    expr.index,
+                    value
+                );
+            }
 
-            errors.push(parseError(equals, "Invalid assignment target."));
+            errors.push(
+                parseError(
+                    equals,
+                    "Invalid assignment target.",
+                    CODES.invalidTarget
+                )
+            );
+        }
+
+        if (match(...(Object.keys(COMPOUND_OPERATORS) as TokenType[]))) {
+            const operator = previous();
+            const value = assignment();
+
+            if (expr.type === "variable") {
+                // `x += y` desugars to `x = x + y`, keeping the compound
+                // lexeme so operand errors point at what was written.
+                const binaryOperator = token({
+                    ...operator,
+                    type: COMPOUND_OPERATORS[operator.type] as TokenType,
+                    literal: null,
+                });
+                return ex.assignment(
+                    expr.name,
+                    ex.binary(expr, binaryOperator, value)
+                );
+            }
+
+            errors.push(
+                parseError(
+                    operator,
+                    "Invalid assignment target.",
+                    CODES.invalidTarget
+                )
+            );
         }
 
         return expr;
+    });
+    const conditional = spanned((): Expr => {
+        const condition = coalesce();
+        if (!match("QUESTION")) return condition;
+
+        const thenBranch = expression();
+        consume("COLON", "Expect ':' after then branch of conditional.");
+        return ex.conditional(condition, thenBranch, conditional());
+    });
+    const coalesce = (): Expr =>
+        leftSeries(() => pipe(), ["QUESTION_QUESTION"], "logical");
+    /**
+     * `x |> f` desugars to `f(x)` and `x |> f(y)` to `f(x, y)`. The pipe token
+     * stands in for the call's paren so call errors point at the pipe.
+     */
+    const pipe = (): Expr => {
+        const first = peek();
+        let expr = or();
+        while (match("PIPE_GREATER")) {
+            const operator = previous();
+            expr = pipeInto(or(), operator, expr);
+            setSpan(expr, first, previous());
+        }
+        return expr;
+    };
+    /** A pipe into `a?.f(y)` stays in the chain, so a nil `a` skips it. */
+    const pipeInto = (target: Expr, operator: Token, value: Expr): Expr => {
+        if (target.type === "optionalChain") {
+            return ex.optionalChain(
+                pipeInto(target.expression, operator, value)
+            );
+        }
+        return target.type === "call"
+            ? ex.call(
+                  target.callee,
+                  operator,
+                  [value, ...target.args],
+                  target.optional
+              )
+            : ex.call(target, operator, [value]);
     };
     const or = (): Expr => leftSeries(() => and(), ["OR"], "logical");
     const and = (): Expr => leftSeries(() => equality(), ["AND"], "logical");
@@ -229,38 +640,139 @@ function parseTokensStream(stream: TokenStream) {
         leftSeries(() => comparison(), ["BANG_EQUAL", "EQUAL_EQUAL"], "binary");
     const comparison = (): Expr =>
         leftSeries(
-            () => term(),
+            () => bitOr(),
             ["GREATER", "GREATER_EQUAL", "LESS", "LESS_EQUAL"],
             "binary"
         );
+    const bitOr = (): Expr => leftSeries(() => bitXor(), ["PIPE"], "binary");
+    const bitXor = (): Expr => leftSeries(() => bitAnd(), ["CARET"], "binary");
+    const bitAnd = (): Expr =>
+        leftSeries(() => shift(), ["AMPERSAND"], "binary");
+    const shift = (): Expr =>
+        leftSeries(() => term(), ["LESS_LESS", "GREATER_GREATER"], "binary");
     const term = (): Expr =>
         leftSeries(() => factor(), ["MINUS", "PLUS"], "binary");
     const factor = (): Expr =>
-        leftSeries(() => unary(), ["SLASH", "STAR", "PERCENT"], "binary");
-    const unary = (): Expr => {
-        if (match("BANG", "MINUS")) {
+        leftSeries(
+            () => unary(),
+            ["SLASH", "STAR", "PERCENT", "TILDE_SLASH"],
+            "binary"
+        );
+    const unary = spanned((): Expr => {
+        if (match("BANG", "MINUS", "TILDE")) {
             return ex.unary(previous(), unary());
         }
-        return call();
+        if (match("AWAIT")) {
+            return ex.awaitExpr(previous(), unary());
+        }
+        if (match("PLUS_PLUS", "MINUS_MINUS")) {
+            const operator = previous();
+            return incrementOf(unary(), operator, true);
+        }
+        return power();
+    });
+    /**
+     * `**` is right-associative and binds tighter than a unary minus on its
+     * left, so `-2 ** 2` is `-(2 ** 2)` while `2 ** -1` still parses.
+     */
+    const power = spanned((): Expr => {
+        const base = postfix();
+        if (match("STAR_STAR")) {
+            return ex.binary(base, previous(), unary());
+        }
+        return base;
+    });
+    const postfix = spanned((): Expr => {
+        const expr = call();
+        if (match("PLUS_PLUS", "MINUS_MINUS")) {
+            return incrementOf(expr, previous(), false);
+        }
+        return expr;
+    });
+    const incrementOf = (target: Expr, operator: Token, prefix: boolean) => {
+        if (target.type === "variable") {
+            return ex.increment(target.name, operator, prefix);
+        }
+
+        errors.push(
+            parseError(
+                operator,
+                `Invalid ${operator.lexeme} target.`,
+                CODES.invalidTarget
+            )
+        );
+        return target;
     };
     const call = (): Expr => {
+        const first = peek();
         let expr = primary();
+        let optional = false;
         while (true) {
             if (match("LEFT_PAREN")) {
                 expr = finishCall(expr);
+            } else if (match("DOT")) {
+                const name = consume(
+                    "IDENTIFIER",
+                    "Expect property name after '.'."
+                );
+                expr = ex.get(expr, name);
+            } else if (match("QUESTION_DOT")) {
+                optional = true;
+                if (match("LEFT_PAREN")) {
+                    expr = finishCall(expr, true);
+                } else {
+                    const name = consume(
+                        "IDENTIFIER",
+                        "Expect property name or '(' after '?.'."
+                    );
+                    expr = ex.get(expr, name, true);
+                }
+            } else if (match("LEFT_BRACKET")) {
+                const index = expression();
+                const bracket = consume(
+                    "RIGHT_BRACKET",
+                    "Expect ']' after index."
+                );
+                expr = ex.index(expr, bracket, index);
             } else {
                 break;
             }
+            setSpan(expr, first, previous());
+        }
+        if (optional) {
+            expr = ex.optionalChain(expr);
+            setSpan(expr, first, previous());
         }
         return expr;
     };
-    const primary = (): Expr => {
+    const primary = spanned((): Expr => {
         if (match("FALSE")) return ex.literal(false);
         if (match("TRUE")) return ex.literal(true);
         if (match("NIL")) return ex.literal(null);
 
         if (match("NUMBER", "STRING")) return ex.literal(previous().literal);
 
+        if (match("ERROR")) {
+            record(previous().error as SyntaxError);
+            return ex.errorExpr(previous());
+        }
+
+        if (match("INTERPOLATION")) return interpolation();
+
+        if (match("THIS")) return ex.thisExpr(previous());
+
+        if (match("MATCH")) return matchExpression();
+
+        if (match("SUPER")) {
+            const keyword = previous();
+            consume("DOT", "Expect '.' after 'super'.");
+            const method = consume(
+                "IDENTIFIER",
+                "Expect superclass method name."
+            );
+            return ex.superExpr(keyword, method);
+        }
+
         if (match("IDENTIFIER")) return ex.variable(previous());
 
         if (match("LEFT_PAREN")) {
@@ -269,10 +781,97 @@ function parseTokensStream(stream: TokenStream) {
             return ex.grouping(expr);
         }
 
-        throw parseError(peek(), "Expect expression.");
+        if (match("LEFT_BRACKET")) {
+            const elements: Expr[] = [];
+            if (!check("RIGHT_BRACKET")) {
+                do {
+                    elements.push(expression());
+                } while (match("COMMA"));
+            }
+            consume("RIGHT_BRACKET", "Expect ']' after list elements.");
+            return ex.list(elements);
+        }
+
+        if (match("LEFT_BRACE")) {
+            const brace = previous();
+            const entries: ex.MapEntry[] = [];
+            if (!check("RIGHT_BRACE")) {
+                do {
+                    const key = expression();
+                    consume("COLON", "Expect ':' after map key.");
+                    entries.push({ key, value: expression() });
+                } while (match("COMMA"));
+            }
+            consume("RIGHT_BRACE", "Expect '}' after map entries.");
+            return ex.map(brace, entries);
+        }
+
+        throw errorAt(peek(), "Expect expression.");
+    });
+
+    const matchExpression = (): Expr => {
+        const keyword = previous();
+        consume("LEFT_PAREN", "Expect '(' after 'match'.");
+        const subject = expression();
+        consume("RIGHT_PAREN", "Expect ')' after match value.");
+        consume("LEFT_BRACE", "Expect '{' before match arms.");
+
+        const arms: ex.MatchArm[] = [];
+        do {
+            if (check("RIGHT_BRACE")) break;
+            const pattern = matchPattern();
+            const guard = match("IF") ? expression() : null;
+            consume("ARROW", "Expect '=>' after match pattern.");
+            arms.push({ pattern, guard, body: expression() });
+        } while (match("COMMA"));
+
+        consume("RIGHT_BRACE", "Expect '}' after match arms.");
+        return ex.match(keyword, subject, arms);
+    };
+    const interpolation = (): Expr => {
+        const token = previous();
+        const parts: Expr[] = [];
+        do {
+            if (previous().literal !== "") {
+                parts.push(ex.literal(previous().literal));
+            }
+            parts.push(expression());
+        } while (match("INTERPOLATION"));
+
+        const end = consume(
+            "STRING",
+            "Expect '}' after interpolated expression."
+        );
+        if (end.literal !== "") parts.push(ex.literal(end.literal));
+        return ex.interpolation(token, parts);
     };
+    const matchPattern = (): ex.Pattern => {
+        if (match("IDENTIFIER")) {
+            const name = previous();
+            if (name.lexeme === "_") return { type: "wildcard" };
+            return { type: "binding", name };
+        }
+        if (match("FALSE")) return { type: "literal", value: false };
+        if (match("TRUE")) return { type: "literal", value: true };
+        if (match("NIL")) return { type: "literal", value: null };
+        if (match("STRING")) {
+            return { type: "literal", value: previous().literal };
+        }
+        if (check("NUMBER") || check("MINUS")) {
+            const low = patternNumber();
+            if (!match("DOT_DOT")) return { type: "literal", value: low };
+            return { type: "range", low, high: patternNumber() };
+        }
 
-    const finishCall = (callee: Expr): Expr => {
+        throw errorAt(peek(), "Expect match pattern.");
+    };
+    const patternNumber = (): number => {
+        const negative = match("MINUS");
+        const value = consume("NUMBER", "Expect number in pattern.").literal;
+        return negative ? -Number(value) : Number(value);
+    };
+
+    const finishCall = (callee: Expr, optional = false): Expr => {
         const args: Expr[] = [];
         if (!check("RIGHT_PAREN")) {
             do {
@@ -280,7 +879,8 @@ function parseTokensStream(stream: TokenStream) {
                     errors.push(
                         parseError(
                             peek(),
-                            "Can't have more than 255 arguments."
+                            "Can't have more than 255 arguments.",
+                            CODES.tooManyArguments
                         )
                     );
                 }
@@ -288,7 +888,7 @@ function parseTokensStream(stream: TokenStream) {
             } while (match("COMMA"));
         }
         const paren = consume("RIGHT_PAREN", "Expect ')' after arguments.");
-        return ex.call(callee, paren, args);
+        return ex.call(callee, paren, args, optional);
     };
     /**  Method for parsing a left-associative series of binary operators */
     const leftSeries = (
@@ -296,12 +896,14 @@ function parseTokensStream(stream: TokenStream) {
         matchTypes: TokenType[],
         type: "binary" | "logical"
     ) => {
+        const first = peek();
         let expr = exprFn();
         while (match(...matchTypes)) {
             expr =
                 type === "binary"
                     ? ex.binary(expr, previous(), exprFn())
                     : ex.logical(expr, previous(), exprFn());
+            setSpan(expr, first, previous());
         }
         return expr;
     };
@@ -314,33 +916,85 @@ function parseTokensStream(stream: TokenStream) {
         return false;
     };
     const check = (type: TokenType) => !isAtEnd() && peek().type === type;
+    /** Checks for a contextual keyword such as `as`, which stays a valid name. */
+    const checkWord = (word: string) =>
+        check("IDENTIFIER") && peek().lexeme === word;
+    const consumeWord = (word: string, message: string) => {
+        if (checkWord(word)) return advance();
+        throw errorAt(peek(), message);
+    };
     const advance = () => stream.advance();
     const isAtEnd = () => stream.isAtEnd();
-    const peek = () => stream.peek();
+    const peek = (k = 0) => stream.peek(k);
     const previous = () => stream.previous();
     /**
-     * @throws {ParseError}
+     * @throws {ParseError} or the SyntaxError of an ERROR token in the way
      */
     const consume = (type: TokenType, message: string) => {
         if (check(type)) return advance();
-        throw parseError(peek(), message);
+        throw errorAt(peek(), message);
+    };
+    /** The error for an unexpected token. ERROR tokens bring their own. */
+    const errorAt = (token: Token, message: string): SourceError =>
+        token.error ?? parseError(token, message);
+    /**
+     * Adds the error to those reported. A parse error right where a scanner
+     * error left off, such as a missing `;` after an unterminated string, is
+     * fallout from it and isn't reported again.
+     */
+    const record = (error: SourceError) => {
+        const { start = 0, end = 0 } = error.range ?? {};
+        if (!(error instanceof ParseError)) scanErrorEnd = end;
+        else if (start <= scanErrorEnd) return;
+        errors.push(error);
     };
 
-    const synchronize = () => {
-        if (!isAtEnd()) advance();
+    /**
+     * Parses a declaration. If it fails, records the error and skips to the
+     * next statement, leaving an ErrorStmt in place of the one that failed.
+     * Inside a block, the skipping stops at the block's closing brace.
+     */
+    const recoveringDeclaration = (inBlock: boolean): Stmt => {
+        const first = peek();
+        let error: SourceError;
+        if (match("ERROR")) {
+            error = first.error as SyntaxError;
+        } else {
+            try {
+                return declaration();
+            } catch (thrown) {
+                if (!(thrown instanceof SourceError)) throw thrown;
+                error = thrown;
+                synchronize(inBlock);
+            }
+        }
+        record(error);
+        const stmt = st.errorStmt(first, error);
+        setSpan(stmt, first, previous());
+        return stmt;
+    };
+    const synchronize = (inBlock: boolean) => {
+        const atBlockEnd = () => inBlock && check("RIGHT_BRACE");
+        if (!isAtEnd() && !atBlockEnd()) advance();
 
-        while (!isAtEnd()) {
+        while (!isAtEnd() && !atBlockEnd()) {
             if (previous().type === "SEMICOLON") return;
 
             switch (peek().type) {
                 case "CLASS":
                 case "FUN":
+                case "ASYNC":
                 case "VAR":
+                case "CONST":
                 case "FOR":
                 case "IF":
                 case "WHILE":
                 case "PRINT":
                 case "RETURN":
+                case "THROW":
+                case "TRY":
+                case "IMPORT":
+                case "EXPORT":
                     return;
             }
 
@@ -349,30 +1003,29 @@ function parseTokensStream(stream: TokenStream) {
     };
 
     while (!isAtEnd()) {
-        try {
-            statements.push(declaration());
-        } catch (error) {
-            if (error instanceof ParseError) {
-                errors.push(error);
-                synchronize();
-            } else {
-                throw error;
-            }
-        }
+        statements.push(recoveringDeclaration(false));
     }
 
+    return { statements, errors };
+}
+
+/**
+ * Unified parse: accepts Token[] or any Iterable<Token>
+ * @throws {LoxError} with every scanner and parser error found
+ */
+export function parseAst(tokensOrIterable: Token[] | Iterable<Token>) {
+    const { statements, errors } = parsePartialAst(tokensOrIterable);
     if (errors.length > 0) {
         throw new LoxError("Syntax error", errors);
     }
-
     return statements;
 }
 
 /**
- * Unified parse: accepts Token[] or any Iterable<Token>
- * @throws {ParseError}
+ * Parses as much as it can without throwing, returning the tree with
+ * ErrorStmt and ErrorExpr nodes where parsing failed, and the errors found.
  */
-export function parseAst(tokensOrIterable: Token[] | Iterable<Token>) {
+export function parsePartialAst(tokensOrIterable: Token[] | Iterable<Token>) {
     const isArray = Array.isArray(tokensOrIterable);
     const stream = isArray
         ? fromArray(tokensOrIterable as Token[])
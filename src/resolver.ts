@@ -1,29 +1,58 @@
-import { LoxError, parseError } from "./core/error";
+import { readFileSync, statSync } from "node:fs";
+import { dirname, resolve as resolvePath } from "node:path";
+import { CODES } from "./core/diagnostic";
+import { LoxError, parseError, parseWarning } from "./core/error";
 import type {
     AssignmentExpr,
+    AwaitExpr,
     BinaryExpr,
     CallExpr,
+    ConditionalExpr,
     Expr,
     FunctionExpr,
+    GetExpr,
     GroupingExpr,
+    IndexExpr,
+    IncrementExpr,
+    IndexSetExpr,
+    InterpolationExpr,
+    ListExpr,
     LiteralExpr,
     LogicalExpr,
+    MapExpr,
+    MatchExpr,
+    OptionalChainExpr,
+    SetExpr,
+    SuperExpr,
+    ThisExpr,
     UnaryExpr,
     VariableExpr,
+    YieldExpr,
 } from "./core/expressions";
+import { moduleName, SUPER_TOKEN, THIS_TOKEN } from "./core/literal";
+import { spanOf } from "./core/span";
 import type {
     BlockStmt,
     BreakStmt,
+    ClassStmt,
+    ContinueStmt,
+    ExportStmt,
     ExprStmt,
+    ForInStmt,
     FunctionStmt,
     IfStmt,
+    ImportStmt,
     PrintStmt,
     ReturnStmt,
     Stmt,
+    ThrowStmt,
+    TryStmt,
     VarDeclStmt,
     WhileStmt,
 } from "./core/statements";
 import type { Token } from "./core/token";
+import { parsePartialAst } from "./parser";
+import { scanTokens } from "./scanner";
 
 type DefinedType = "defined" | "not_defined" | "not_declared";
 
@@ -33,45 +62,101 @@ interface Scope {
     /** Pop the current scope off the stack. */
     pop: () => void;
     /** Mark a variable as declared in the scope. */
-    declare: (name: Token) => void;
+    declare: (name: Token, constant?: boolean) => void;
     /** Mark that declared variable has been defined in the scope. */
     define: (name: Token) => void;
     /** Get the defined state of a variable in the scope. */
     get: (name: Token) => DefinedType;
+    /** Whether resolution is at the top level, outside any local scope. */
+    isGlobal: () => boolean;
+    /** The `const` declaring the nearest binding of a name, if it is one. */
+    constantOf: (name: Token) => Token | null;
 }
 
-type ScopeType = "global" | "function" | "loop";
+type ScopeType = "global" | "function" | "loop" | "class" | "match";
+
+type FunctionType = "none" | "function" | "method" | "initializer";
+
+type ClassType = "none" | "class" | "subclass";
+
+export interface ResolverOptions {
+    /**
+     * The path of the file being resolved. Imports are looked up relative
+     * to it, or to the working directory when it is not set.
+     */
+    file?: string;
+}
 
 interface Resolver {
     scope: Scope;
     errors: LoxError[];
+    /** Problems that don't stop the program from running. */
+    warnings: LoxError[];
     resolveLocal: (expr: Expr, name: Token) => void;
     locals: Map<Expr, number>;
+    /** The kind of function whose body is being resolved. */
+    currentFunction: FunctionType;
+    /** Whether the function whose body is being resolved is `async`. */
+    currentAsync: boolean;
+    /** Whether a parameter's default value is being resolved. */
+    inDefault: boolean;
+    /** The kind of class whose body is being resolved. */
+    currentClass: ClassType;
+    /** Labels of the loops enclosing the current statement. */
+    labels: string[];
+    /** The absolute path of the file being resolved, if it has one. */
+    file: string | null;
 }
 
-const createResolver = (): Resolver => {
+const createResolver = (file: string | null): Resolver => {
     const errors: LoxError[] = [];
 
-    const scopes: { type: ScopeType; vars: Map<string, boolean> }[] = [];
+    const scopes: {
+        type: ScopeType;
+        vars: Map<string, boolean>;
+        /** Where each variable in the scope was declared. */
+        names: Map<string, Token>;
+        constants: Map<string, Token>;
+    }[] = [];
     const getScope = () => scopes[scopes.length - 1];
+    /** Globals aren't tracked in `scopes`, but their constness still is. */
+    const globalConstants = new Map<string, Token>();
 
     const scope: Scope = {
-        push: (type) => scopes.push({ type, vars: new Map() }),
+        push: (type) =>
+            scopes.push({
+                type,
+                vars: new Map(),
+                names: new Map(),
+                constants: new Map(),
+            }),
         pop: () => scopes.pop(),
-        declare: (name: Token) => {
+        declare: (name: Token, constant = false) => {
             const scope = getScope();
+            const constants = scope?.constants ?? globalConstants;
+            if (constant) constants.set(name.lexeme, name);
+            else constants.delete(name.lexeme);
             if (!scope) return;
 
-            if (scope.vars.has(name.lexeme)) {
+            const previous = scope.names.get(name.lexeme);
+            if (previous) {
                 errors.push(
                     parseError(
                         name,
-                        `Variable with name '${name.lexeme}' already declared in this scope.`
+                        `Variable with name '${name.lexeme}' already declared in this scope.`,
+                        CODES.duplicateDeclaration,
+                        [
+                            {
+                                message: "Previously declared here.",
+                                token: previous,
+                            },
+                        ]
                     )
                 );
             }
 
             scope.vars.set(name.lexeme, false);
+            scope.names.set(name.lexeme, name);
         },
         define: (name: Token) => {
             const scope = getScope();
@@ -86,6 +171,16 @@ const createResolver = (): Resolver => {
             }
             return "not_declared";
         },
+        isGlobal: () => scopes.length === 0,
+        constantOf: (name: Token) => {
+            for (let i = scopes.length - 1; i >= 0; i--) {
+                const scope = scopes[i];
+                if (scope?.vars.has(name.lexeme)) {
+                    return scope.constants.get(name.lexeme) ?? null;
+                }
+            }
+            return globalConstants.get(name.lexeme) ?? null;
+        },
     };
 
     const locals = new Map<Expr, number>();
@@ -99,18 +194,46 @@ const createResolver = (): Resolver => {
         }
     };
 
-    return { scope, errors: [], locals, resolveLocal };
+    return {
+        scope,
+        errors,
+        warnings: [],
+        locals,
+        resolveLocal,
+        currentFunction: "none",
+        currentAsync: false,
+        inDefault: false,
+        currentClass: "none",
+        labels: [],
+        file,
+    };
 };
 
-export function resolve(statements: Stmt[]) {
-    const resolver = createResolver();
-    resolveStmts(statements, "global", resolver);
+export function resolve(statements: Stmt[], options?: ResolverOptions) {
+    const { locals, warnings, errors } = resolvePartialAst(statements, options);
 
-    if (resolver.errors.length > 0) {
-        throw new LoxError("Resolver error", resolver.errors);
+    if (errors.length > 0) {
+        throw new LoxError("Resolver error", errors);
     }
 
-    return { locals: resolver.locals };
+    return { locals, warnings };
+}
+
+/**
+ * Resolves the statements without throwing, returning the errors found. The
+ * tree may come from `parsePartialAst`; its error nodes are skipped.
+ */
+export function resolvePartialAst(
+    statements: Stmt[],
+    options?: ResolverOptions
+) {
+    const { file } = options ?? {};
+    const resolver = createResolver(
+        file === undefined ? null : resolvePath(file)
+    );
+    resolveStmts(statements, "global", resolver);
+    const { locals, warnings, errors } = resolver;
+    return { locals, warnings, errors };
 }
 
 const resolveStmts = (
@@ -129,6 +252,9 @@ const resolveStmts = (
             case "function":
                 visitFunctionStmt(statement, resolver);
                 break;
+            case "classDecl":
+                visitClassStmt(statement, resolver);
+                break;
             case "exprStmt":
                 visitExprStmt(statement, resolver);
                 break;
@@ -138,15 +264,36 @@ const resolveStmts = (
             case "whileStmt":
                 visitWhileStmt(statement, resolver);
                 break;
+            case "forInStmt":
+                visitForInStmt(statement, resolver);
+                break;
             case "breakStmt":
                 visitBreakStmt(statement, type, resolver);
                 break;
+            case "continueStmt":
+                visitContinueStmt(statement, type, resolver);
+                break;
             case "returnStmt":
                 visitReturnStmt(statement, type, resolver);
                 break;
             case "printStmt":
                 visitPrintStmt(statement, resolver);
                 break;
+            case "throwStmt":
+                visitThrowStmt(statement, resolver);
+                break;
+            case "tryStmt":
+                visitTryStmt(statement, type, resolver);
+                break;
+            case "importStmt":
+                visitImportStmt(statement, resolver);
+                break;
+            case "exportStmt":
+                visitExportStmt(statement, type, resolver);
+                break;
+            case "errorStmt":
+                // The parser already reported why the statement is missing.
+                break;
         }
     }
 };
@@ -162,7 +309,7 @@ const visitBlockStmt = (
 };
 
 const visitVarDeclStmt = (stmt: VarDeclStmt, resolver: Resolver) => {
-    resolver.scope.declare(stmt.name);
+    resolver.scope.declare(stmt.name, stmt.constant);
     if (stmt.initializer !== null) {
         resolveExpr(stmt.initializer, resolver);
     }
@@ -176,18 +323,159 @@ const visitFunctionStmt = (stmt: FunctionStmt, resolver: Resolver) => {
     resolveFunction(stmt, resolver, "function");
 };
 
+const visitClassStmt = (stmt: ClassStmt, resolver: Resolver) => {
+    const enclosingClass = resolver.currentClass;
+    resolver.currentClass = "class";
+
+    resolver.scope.declare(stmt.name);
+    resolver.scope.define(stmt.name);
+
+    if (stmt.superclass !== null) {
+        if (stmt.superclass.name.lexeme === stmt.name.lexeme) {
+            resolver.errors.push(
+                parseError(
+                    stmt.superclass.name,
+                    "A class can't inherit from itself.",
+                    CODES.selfReference
+                )
+            );
+        }
+
+        resolver.currentClass = "subclass";
+        resolveExpr(stmt.superclass, resolver);
+
+        resolver.scope.push("class");
+        resolver.scope.define(SUPER_TOKEN);
+    }
+
+    resolver.scope.push("class");
+    resolver.scope.define(THIS_TOKEN);
+
+    for (const method of stmt.methods) {
+        const type = method.name.lexeme === "init" ? "initializer" : "method";
+        if (type === "initializer" && method.isAsync) {
+            resolver.errors.push(
+                parseError(
+                    method.name,
+                    "Can't make an initializer async.",
+                    CODES.invalidAsync
+                )
+            );
+        }
+        resolveFunction(method, resolver, type);
+    }
+
+    resolver.scope.pop();
+    if (stmt.superclass !== null) resolver.scope.pop();
+
+    resolver.currentClass = enclosingClass;
+};
+
 const resolveFunction = (
     func: FunctionStmt | FunctionExpr,
     resolver: Resolver,
-    type: ScopeType
+    type: FunctionType
 ) => {
-    resolver.scope.push(type);
+    const enclosingFunction = resolver.currentFunction;
+    const enclosingAsync = resolver.currentAsync;
+    const enclosingDefault = resolver.inDefault;
+    const enclosingLabels = resolver.labels;
+    resolver.currentFunction = type;
+    resolver.currentAsync = func.isAsync;
+    resolver.labels = [];
+
+    resolver.scope.push("function");
     for (const parameter of func.parameters) {
-        resolver.scope.declare(parameter);
-        resolver.scope.define(parameter);
+        resolver.scope.declare(parameter.name);
+        if (parameter.defaultValue !== null) {
+            // Defaults are evaluated by the call itself, before a generator
+            // or async body starts, so they have nowhere to pause.
+            resolver.inDefault = true;
+            resolveExpr(parameter.defaultValue, resolver);
+        }
+        resolver.inDefault = false;
+        resolver.scope.define(parameter.name);
     }
-    resolveStmts(func.body, type, resolver);
+    resolveStmts(func.body, "function", resolver);
     resolver.scope.pop();
+
+    resolver.currentFunction = enclosingFunction;
+    resolver.currentAsync = enclosingAsync;
+    resolver.inDefault = enclosingDefault;
+    resolver.labels = enclosingLabels;
+};
+
+const visitYield = (expr: YieldExpr, resolver: Resolver) => {
+    if (resolver.inDefault) {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't yield from a parameter's default value.",
+                CODES.invalidYield,
+                [],
+                spanOf(expr)
+            )
+        );
+    } else if (resolver.currentFunction === "none") {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't yield outside of a function.",
+                CODES.invalidYield,
+                [],
+                spanOf(expr)
+            )
+        );
+    } else if (resolver.currentFunction === "initializer") {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't yield from an initializer.",
+                CODES.invalidYield,
+                [],
+                spanOf(expr)
+            )
+        );
+    } else if (resolver.currentAsync) {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't yield from an async function.",
+                CODES.invalidYield,
+                [],
+                spanOf(expr)
+            )
+        );
+    }
+
+    if (expr.value !== null) {
+        resolveExpr(expr.value, resolver);
+    }
+};
+
+const visitAwait = (expr: AwaitExpr, resolver: Resolver) => {
+    if (resolver.inDefault) {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't use 'await' in a parameter's default value.",
+                CODES.invalidAsync,
+                [],
+                spanOf(expr)
+            )
+        );
+    } else if (!resolver.currentAsync) {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't use 'await' outside of an async function.",
+                CODES.invalidAsync,
+                [],
+                spanOf(expr)
+            )
+        );
+    }
+    resolveExpr(expr.value, resolver);
 };
 
 const visitExprStmt = (stmt: ExprStmt, resolver: Resolver) => {
@@ -203,8 +491,61 @@ const visitIfStmt = (stmt: IfStmt, type: ScopeType, resolver: Resolver) => {
 };
 
 const visitWhileStmt = (stmt: WhileStmt, resolver: Resolver) => {
-    resolveExpr(stmt.condition, resolver);
-    resolveStmts([stmt.body], "loop", resolver);
+    resolveLoop(stmt.label, resolver, () => {
+        resolveExpr(stmt.condition, resolver);
+        resolveStmts([stmt.body], "loop", resolver);
+        if (stmt.increment !== null) {
+            resolveExpr(stmt.increment, resolver);
+        }
+    });
+};
+
+const visitForInStmt = (stmt: ForInStmt, resolver: Resolver) => {
+    resolveExpr(stmt.iterable, resolver);
+
+    resolveLoop(stmt.label, resolver, () => {
+        resolver.scope.push("loop");
+        resolver.scope.declare(stmt.name);
+        resolver.scope.define(stmt.name);
+        resolveStmts([stmt.body], "loop", resolver);
+        resolver.scope.pop();
+    });
+};
+
+/** Resolves a loop with its label in scope for `break` and `continue`. */
+const resolveLoop = (
+    label: Token | null,
+    resolver: Resolver,
+    resolveBody: () => void
+) => {
+    if (label !== null) {
+        if (resolver.labels.includes(label.lexeme)) {
+            resolver.errors.push(
+                parseError(
+                    label,
+                    `Label '${label.lexeme}' is already in use.`,
+                    CODES.invalidJump
+                )
+            );
+        }
+        resolver.labels.push(label.lexeme);
+    }
+
+    resolveBody();
+
+    if (label !== null) resolver.labels.pop();
+};
+
+const resolveLabel = (label: Token | null, resolver: Resolver) => {
+    if (label !== null && !resolver.labels.includes(label.lexeme)) {
+        resolver.errors.push(
+            parseError(
+                label,
+                `Undefined label '${label.lexeme}'.`,
+                CODES.invalidJump
+            )
+        );
+    }
 };
 
 const visitBreakStmt = (
@@ -214,9 +555,141 @@ const visitBreakStmt = (
 ) => {
     if (type !== "loop") {
         resolver.errors.push(
-            parseError(stmt.operator, "Can't break outside of a loop.")
+            parseError(
+                stmt.operator,
+                "Can't break outside of a loop.",
+                CODES.invalidJump,
+                [],
+                spanOf(stmt)
+            )
+        );
+    }
+    resolveLabel(stmt.label, resolver);
+};
+
+const visitContinueStmt = (
+    stmt: ContinueStmt,
+    type: ScopeType,
+    resolver: Resolver
+) => {
+    if (type !== "loop") {
+        resolver.errors.push(
+            parseError(
+                stmt.keyword,
+                "Can't continue outside of a loop.",
+                CODES.invalidJump,
+                [],
+                spanOf(stmt)
+            )
+        );
+    }
+    resolveLabel(stmt.label, resolver);
+};
+
+const visitThrowStmt = (stmt: ThrowStmt, resolver: Resolver) => {
+    resolveExpr(stmt.value, resolver);
+};
+
+const visitTryStmt = (stmt: TryStmt, type: ScopeType, resolver: Resolver) => {
+    resolver.scope.push(type);
+    resolveStmts(stmt.body, type, resolver);
+    resolver.scope.pop();
+
+    if (stmt.handler !== null) {
+        resolver.scope.push(type);
+        resolver.scope.declare(stmt.handler.name);
+        resolver.scope.define(stmt.handler.name);
+        resolveStmts(stmt.handler.body, type, resolver);
+        resolver.scope.pop();
+    }
+
+    if (stmt.finalizer !== null) {
+        resolver.scope.push(type);
+        resolveStmts(stmt.finalizer, type, resolver);
+        resolver.scope.pop();
+    }
+};
+
+const visitImportStmt = (stmt: ImportStmt, resolver: Resolver) => {
+    if (!resolver.scope.isGlobal()) {
+        resolver.errors.push(
+            parseError(
+                stmt.keyword,
+                "Can only import at the top level.",
+                CODES.invalidModuleStatement,
+                [],
+                spanOf(stmt)
+            )
+        );
+    }
+
+    const base =
+        resolver.file === null ? process.cwd() : dirname(resolver.file);
+    const path = resolvePath(base, String(stmt.path.literal));
+    const exports = exportsOf(path);
+    for (const name of stmt.names) {
+        if (exports === null || exports.has(name.lexeme)) continue;
+        resolver.errors.push(
+            parseError(
+                name,
+                `Module '${moduleName(path)}' has no export '${name.lexeme}'.`,
+                CODES.missingExport
+            )
+        );
+    }
+
+    for (const name of stmt.alias ? [stmt.alias] : stmt.names) {
+        resolver.scope.declare(name);
+        resolver.scope.define(name);
+    }
+};
+
+/**
+ * The exports of each module file by absolute path, with the modification
+ * time of the file they were read from.
+ */
+const exportsCache = new Map<string, { mtime: number; exports: Set<string> }>();
+
+/**
+ * The names the module at the path exports, or `null` if there's no such
+ * file. The module is only parsed here, once until the file changes; its
+ * own errors are reported when it's loaded.
+ */
+const exportsOf = (path: string) => {
+    const stats = statSync(path, { throwIfNoEntry: false });
+    if (stats === undefined) return null;
+    const cached = exportsCache.get(path);
+    if (cached?.mtime === stats.mtimeMs) return cached.exports;
+
+    const { statements } = parsePartialAst(
+        scanTokens(readFileSync(path, "utf8"), path)
+    );
+    const exports = new Set<string>();
+    for (const statement of statements) {
+        if (statement.type === "exportStmt") {
+            exports.add(statement.declaration.name.lexeme);
+        }
+    }
+    exportsCache.set(path, { mtime: stats.mtimeMs, exports });
+    return exports;
+};
+
+const visitExportStmt = (
+    stmt: ExportStmt,
+    type: ScopeType,
+    resolver: Resolver
+) => {
+    if (!resolver.scope.isGlobal()) {
+        resolver.errors.push(
+            parseError(
+                stmt.keyword,
+                "Can only export from the top level.",
+                CODES.invalidModuleStatement
+            )
         );
     }
+
+    resolveStmts([stmt.declaration], type, resolver);
 };
 
 const visitPrintStmt = (stmt: PrintStmt, resolver: Resolver) => {
@@ -230,11 +703,29 @@ const visitReturnStmt = (
 ) => {
     if (type === "global") {
         resolver.errors.push(
-            parseError(stmt.keyword, "Can't return from top-level code.")
+            parseError(
+                stmt.keyword,
+                "Can't return from top-level code.",
+                CODES.invalidReturn,
+                [],
+                spanOf(stmt)
+            )
         );
     }
 
     if (stmt.value !== null) {
+        if (resolver.currentFunction === "initializer") {
+            resolver.errors.push(
+                parseError(
+                    stmt.keyword,
+                    "Can't return a value from an initializer.",
+                    CODES.invalidReturn,
+                    [],
+                    spanOf(stmt.value)
+                )
+            );
+        }
+
         resolveExpr(stmt.value, resolver);
     }
 };
@@ -256,18 +747,65 @@ const resolveExpr = (expr: Expr, resolver: Resolver) => {
         case "logical":
             visitLogical(expr, resolver);
             break;
+        case "conditional":
+            visitConditional(expr, resolver);
+            break;
         case "variable":
             visitVariable(expr, resolver);
             break;
         case "assignment":
             visitAssignment(expr, resolver);
             break;
+        case "increment":
+            visitIncrement(expr, resolver);
+            break;
         case "call":
             visitCall(expr, resolver);
             break;
+        case "get":
+            visitGet(expr, resolver);
+            break;
+        case "optionalChain":
+            visitOptionalChain(expr, resolver);
+            break;
+        case "set":
+            visitSet(expr, resolver);
+            break;
+        case "this":
+            visitThis(expr, resolver);
+            break;
+        case "super":
+            visitSuper(expr, resolver);
+            break;
+        case "interpolation":
+            visitInterpolation(expr, resolver);
+            break;
+        case "list":
+            visitList(expr, resolver);
+            break;
+        case "map":
+            visitMap(expr, resolver);
+            break;
+        case "index":
+            visitIndex(expr, resolver);
+            break;
+        case "indexSet":
+            visitIndexSet(expr, resolver);
+            break;
+        case "match":
+            visitMatch(expr, resolver);
+            break;
         case "anonymousFunction":
             visitFunction(expr, resolver);
             break;
+        case "yield":
+            visitYield(expr, resolver);
+            break;
+        case "await":
+            visitAwait(expr, resolver);
+            break;
+        case "error":
+            break;
     }
 };
 
@@ -276,7 +814,8 @@ const visitVariable = (expr: VariableExpr, resolver: Resolver) => {
         resolver.errors.push(
             parseError(
                 expr.name,
-                "Can't read local variable in its own initializer."
+                "Can't read local variable in its own initializer.",
+                CODES.selfReference
             )
         );
     }
@@ -285,9 +824,29 @@ const visitVariable = (expr: VariableExpr, resolver: Resolver) => {
 
 const visitAssignment = (expr: AssignmentExpr, resolver: Resolver) => {
     resolveExpr(expr.value, resolver);
+    ensureNotConstant(expr.name, resolver);
     resolver.resolveLocal(expr, expr.name);
 };
 
+const visitIncrement = (expr: IncrementExpr, resolver: Resolver) => {
+    ensureNotConstant(expr.name, resolver);
+    resolver.resolveLocal(expr, expr.name);
+};
+
+const ensureNotConstant = (name: Token, resolver: Resolver) => {
+    const constant = resolver.scope.constantOf(name);
+    if (constant !== null) {
+        resolver.errors.push(
+            parseError(
+                name,
+                `Can't assign to constant '${name.lexeme}'.`,
+                CODES.constantAssignment,
+                [{ message: "Declared as a constant here.", token: constant }]
+            )
+        );
+    }
+};
+
 const visitCall = (expr: CallExpr, resolver: Resolver) => {
     resolveExpr(expr.callee, resolver);
     for (const arg of expr.args) {
@@ -295,6 +854,119 @@ const visitCall = (expr: CallExpr, resolver: Resolver) => {
     }
 };
 
+const visitGet = (expr: GetExpr, resolver: Resolver) => {
+    resolveExpr(expr.object, resolver);
+};
+
+const visitOptionalChain = (expr: OptionalChainExpr, resolver: Resolver) => {
+    resolveExpr(expr.expression, resolver);
+};
+
+const visitSet = (expr: SetExpr, resolver: Resolver) => {
+    resolveExpr(expr.value, resolver);
+    resolveExpr(expr.object, resolver);
+};
+
+const visitInterpolation = (expr: InterpolationExpr, resolver: Resolver) => {
+    for (const part of expr.parts) {
+        resolveExpr(part, resolver);
+    }
+};
+
+const visitList = (expr: ListExpr, resolver: Resolver) => {
+    for (const element of expr.elements) {
+        resolveExpr(element, resolver);
+    }
+};
+
+const visitMap = (expr: MapExpr, resolver: Resolver) => {
+    for (const entry of expr.entries) {
+        resolveExpr(entry.key, resolver);
+        resolveExpr(entry.value, resolver);
+    }
+};
+
+const visitIndex = (expr: IndexExpr, resolver: Resolver) => {
+    resolveExpr(expr.object, resolver);
+    resolveExpr(expr.index, resolver);
+};
+
+const visitIndexSet = (expr: IndexSetExpr, resolver: Resolver) => {
+    resolveExpr(expr.value, resolver);
+    resolveExpr(expr.object, resolver);
+    resolveExpr(expr.index, resolver);
+};
+
+const visitMatch = (expr: MatchExpr, resolver: Resolver) => {
+    resolveExpr(expr.subject, resolver);
+
+    for (const arm of expr.arms) {
+        const { pattern } = arm;
+        if (pattern.type === "binding") {
+            resolver.scope.push("match");
+            resolver.scope.declare(pattern.name);
+            resolver.scope.define(pattern.name);
+        }
+
+        if (arm.guard !== null) resolveExpr(arm.guard, resolver);
+        resolveExpr(arm.body, resolver);
+
+        if (pattern.type === "binding") resolver.scope.pop();
+    }
+
+    const exhaustive = expr.arms.some(
+        ({ pattern, guard }) =>
+            guard === null &&
+            (pattern.type === "wildcard" || pattern.type === "binding")
+    );
+    if (!exhaustive) {
+        resolver.warnings.push(
+            parseWarning(
+                expr.keyword,
+                "Match has no catch-all arm; unmatched values cause a runtime error.",
+                CODES.nonExhaustiveMatch
+            )
+        );
+    }
+};
+
+const visitThis = (expr: ThisExpr, resolver: Resolver) => {
+    if (resolver.currentClass === "none") {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't use 'this' outside of a class.",
+                CODES.invalidClassKeyword
+            )
+        );
+        return;
+    }
+
+    resolver.resolveLocal(expr, expr.keyword);
+};
+
+const visitSuper = (expr: SuperExpr, resolver: Resolver) => {
+    if (resolver.currentClass === "none") {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't use 'super' outside of a class.",
+                CODES.invalidClassKeyword
+            )
+        );
+    } else if (resolver.currentClass !== "subclass") {
+        resolver.errors.push(
+            parseError(
+                expr.keyword,
+                "Can't use 'super' in a class with no superclass.",
+                CODES.invalidClassKeyword
+            )
+        );
+    }
+
+    resolver.resolveLocal(expr, expr.keyword);
+};
+
 const visitGrouping = (expr: GroupingExpr, resolver: Resolver) => {
     resolveExpr(expr.expression, resolver);
 };
@@ -311,6 +983,12 @@ const visitLogical = (expr: LogicalExpr, resolver: Resolver) => {
     resolveExpr(expr.right, resolver);
 };
 
+const visitConditional = (expr: ConditionalExpr, resolver: Resolver) => {
+    resolveExpr(expr.condition, resolver);
+    resolveExpr(expr.thenBranch, resolver);
+    resolveExpr(expr.elseBranch, resolver);
+};
+
 const visitUnary = (expr: UnaryExpr, resolver: Resolver) => {
     resolveExpr(expr.right, resolver);
 };
@@ -1,11 +1,14 @@
 import { describe, test, expect } from "bun:test";
 import { scanTokens } from "./scanner";
 
+/** The messages of the errors carried by the ERROR tokens scanned from the input. */
+const scanErrors = (input: string) => Array.from(scanTokens(input)).flatMap((token) => (token.error ? [token.error.reason] : []));
+
 describe("Scanner", () => {
     test("should scan basic tokens and operators correctly", () => {
         const input = `// this is a comment
 (( )){} // grouping stuff
-!*+-/=<> <= == % // operators
+!*+-/ =<> <= == % // operators
 `;
 
         const tokens = Array.from(scanTokens(input));
@@ -109,4 +112,168 @@ print "hello"; // another comment`;
         expect(tokens).toHaveLength(1);
         expect(tokens[0]?.type).toBe("EOF");
     });
+
+    test("should split interpolated strings into parts", () => {
+        const input = '"a ${ {"k": "}"}["k"] } b ${x}"';
+
+        const tokens = Array.from(scanTokens(input));
+
+        expect(tokens.map((token) => token.type)).toEqual([
+            "INTERPOLATION",
+            "LEFT_BRACE",
+            "STRING",
+            "COLON",
+            "STRING",
+            "RIGHT_BRACE",
+            "LEFT_BRACKET",
+            "STRING",
+            "RIGHT_BRACKET",
+            "INTERPOLATION",
+            "IDENTIFIER",
+            "STRING",
+            "EOF",
+        ]);
+        expect(tokens[0]?.literal).toBe("a ");
+        expect(tokens[4]?.literal).toBe("}");
+        expect(tokens[9]?.literal).toBe(" b ");
+        expect(tokens[11]?.literal).toBe("");
+    });
+
+    test("should keep escaped interpolations literal", () => {
+        const tokens = Array.from(scanTokens('"\\${x}"'));
+
+        expect(tokens).toHaveLength(2);
+        expect(tokens[0]?.literal).toBe("${x}");
+        expect(scanErrors('"${x"')).toEqual(["Unterminated string.", "Unterminated string interpolation."]);
+    });
+
+    test("should pair a backslash with the character it escapes", () => {
+        const interpolated = Array.from(scanTokens('"\\\\${x}"'));
+
+        expect(interpolated.map((token) => token.type)).toEqual(["INTERPOLATION", "IDENTIFIER", "STRING", "EOF"]);
+        expect(interpolated[0]?.literal).toBe("\\");
+
+        const trailing = Array.from(scanTokens('"a\\\\" + "b"'));
+
+        expect(trailing.map((token) => token.type)).toEqual(["STRING", "PLUS", "STRING", "EOF"]);
+        expect(trailing[0]?.literal).toBe("a\\");
+        expect(scanErrors('"a\\')).toEqual(["Unterminated string."]);
+    });
+
+    test("should scan compound assignment and increment operators", () => {
+        const tokens = Array.from(scanTokens("+= -= *= /= %= ++ -- +-"));
+
+        expect(tokens.map((token) => token.type)).toEqual([
+            "PLUS_EQUAL",
+            "MINUS_EQUAL",
+            "STAR_EQUAL",
+            "SLASH_EQUAL",
+            "PERCENT_EQUAL",
+            "PLUS_PLUS",
+            "MINUS_MINUS",
+            "PLUS",
+            "MINUS",
+            "EOF",
+        ]);
+    });
+
+    test("should scan hex, binary, octal and separated numbers", () => {
+        const input = `0xFF 0Xff 0b1010 0o17 1_000_000 0xab_cd`;
+
+        const tokens = Array.from(scanTokens(input));
+
+        expect(tokens.map((token) => token.literal)).toEqual([255, 255, 10, 15, 1000000, 0xabcd, null]);
+        expect(tokens[4]?.lexeme).toBe("1_000_000");
+    });
+
+    test("should scan exponents", () => {
+        const input = `1.5e-3 2E10 3e+2 1_0.2_5e1_0`;
+
+        const tokens = Array.from(scanTokens(input));
+
+        expect(tokens.map((token) => token.literal)).toEqual([0.0015, 2e10, 300, 10.25e10, null]);
+    });
+
+    test("should report malformed numbers", () => {
+        expect(scanErrors("0x;")).toEqual(["Expect hexadecimal digits after '0x'."]);
+        expect(scanErrors("0b")).toEqual(["Expect binary digits after '0b'."]);
+        expect(scanErrors("0b102")).toEqual(["Invalid binary digit: '2'"]);
+        expect(scanErrors("1_000_")).toEqual(["Numeric separators are only allowed between digits."]);
+        expect(scanErrors("1__0")).toEqual(["Numeric separators are only allowed between digits."]);
+        expect(scanErrors("1e")).toEqual(["Expect digits in exponent."]);
+        expect(scanErrors("1e+;")).toEqual(["Expect digits in exponent."]);
+    });
+
+    test("should skip nested block comments and count their lines", () => {
+        const input = `/* outer /* inner
+*/ still comment
+*/ print /**/ 1;`;
+
+        const tokens = Array.from(scanTokens(input));
+
+        expect(tokens.map((token) => token.type)).toEqual(["PRINT", "NUMBER", "SEMICOLON", "EOF"]);
+        expect(tokens[0]?.line).toBe(3);
+        expect(scanErrors("/* /* */ print 1;")).toEqual(["Unterminated block comment."]);
+    });
+
+    test("should attach doc comments to the next token", () => {
+        const input = `/// Adds two numbers.
+///   Returns the sum.
+// not part of the doc
+fun add(a, b) {}
+//// not a doc comment either
+var x;`;
+
+        const tokens = Array.from(scanTokens(input));
+
+        expect(tokens[0]?.doc).toBe("Adds two numbers.\n  Returns the sum.");
+        expect(tokens.slice(1).map((token) => token.doc)).toEqual(Array(tokens.length - 1).fill(null));
+    });
+
+    test("should track offsets and columns of tokens", () => {
+        const input = `var a = 1;
+  print "x
+y" + a;`;
+
+        const tokens = Array.from(scanTokens(input));
+        const positions = tokens.map(({ lexeme, start, end, line, column }) => [lexeme, start, end, line, column]);
+
+        expect(positions.slice(5)).toEqual([
+            ["print", 13, 18, 2, 3],
+            ['"x\ny"', 19, 24, 2, 9],
+            ["+", 25, 26, 3, 4],
+            ["a", 27, 28, 3, 6],
+            [";", 28, 29, 3, 7],
+            ["", 29, 29, 3, 8],
+        ]);
+    });
+
+    test("should quote the offending source in errors", () => {
+        const [, , , , , , error] = Array.from(scanTokens("var a = 1;\nprint 0x;"));
+
+        expect(error?.type).toBe("ERROR");
+        expect(error?.error?.message).toBe(
+            "[line 2] Error: Expect hexadecimal digits after '0x'.\n2 | print 0x;\n  |       ^~\n"
+        );
+    });
+
+    test("should scan past errors, leaving ERROR tokens in their place", () => {
+        const tokens = Array.from(scanTokens('print @ "a\\q" 0b12;\n/* open'));
+
+        expect(tokens.map((token) => [token.type, token.lexeme])).toEqual([
+            ["PRINT", "print"],
+            ["ERROR", "@"],
+            ["ERROR", '"a\\q"'],
+            ["ERROR", "0b12"],
+            ["SEMICOLON", ";"],
+            ["ERROR", "/* open"],
+            ["EOF", ""],
+        ]);
+        expect(tokens.flatMap((token) => (token.error ? [token.error.reason] : []))).toEqual([
+            "Unexpected character: '@'",
+            "Invalid escape sequence: \\q",
+            "Invalid binary digit: '2'",
+            "Unterminated block comment.",
+        ]);
+    });
 });
@@ -1,6 +1,7 @@
-import { LoxError, syntaxError, type SyntaxError } from "./core/error";
+import { CODES, type DiagnosticCode } from "./core/diagnostic";
+import { syntaxError, type SourceRange } from "./core/error";
 import type { Literal } from "./core/literal";
-import { token } from "./core/token";
+import { token, type Token } from "./core/token";
 import { TOKEN_KEYWORDS } from "./core/token-keywords";
 import type { TokenType } from "./core/token-types";
 
@@ -9,14 +10,17 @@ const SINGLE_TOKENS: Record<string, TokenType> = {
     ")": "RIGHT_PAREN",
     "{": "LEFT_BRACE",
     "}": "RIGHT_BRACE",
+    "[": "LEFT_BRACKET",
+    "]": "RIGHT_BRACKET",
     ",": "COMMA",
+    ":": "COLON",
     ".": "DOT",
-    "-": "MINUS",
-    "+": "PLUS",
     ";": "SEMICOLON",
-    "*": "STAR",
-    "/": "SLASH",
-    "%": "PERCENT",
+    "?": "QUESTION",
+    "&": "AMPERSAND",
+    "|": "PIPE",
+    "^": "CARET",
+    "~": "TILDE",
 };
 
 const TWO_CHAR_OPERATORS: Record<
@@ -27,13 +31,50 @@ const TWO_CHAR_OPERATORS: Record<
     "=": { withEq: "EQUAL_EQUAL", withoutEq: "EQUAL" },
     "<": { withEq: "LESS_EQUAL", withoutEq: "LESS" },
     ">": { withEq: "GREATER_EQUAL", withoutEq: "GREATER" },
+    "+": { withEq: "PLUS_EQUAL", withoutEq: "PLUS" },
+    "-": { withEq: "MINUS_EQUAL", withoutEq: "MINUS" },
+    "*": { withEq: "STAR_EQUAL", withoutEq: "STAR" },
+    "/": { withEq: "SLASH_EQUAL", withoutEq: "SLASH" },
+    "%": { withEq: "PERCENT_EQUAL", withoutEq: "PERCENT" },
 };
 
-export function* scanTokens(source: string) {
+interface RadixPrefix {
+    radix: number;
+    name: string;
+    isDigit: (ch: string) => boolean;
+}
+
+/** Number literals with a `0x`, `0b` or `0o` prefix. */
+const RADIX_PREFIXES: Record<string, RadixPrefix> = {
+    x: {
+        radix: 16,
+        name: "hexadecimal",
+        isDigit: (ch) => /[0-9a-f]/i.test(ch),
+    },
+    b: { radix: 2, name: "binary", isDigit: (ch) => ch === "0" || ch === "1" },
+    o: { radix: 8, name: "octal", isDigit: (ch) => ch >= "0" && ch <= "7" },
+};
+
+/**
+ * Scans the source lazily. Problems don't stop the scan: each becomes an
+ * ERROR token, in place of the token that couldn't be read, carrying the
+ * error for the parser to report.
+ */
+export function* scanTokens(source: string, file: string | null = null) {
     let start = 0;
     let current = 0;
     let line = 1;
-    const errors: SyntaxError[] = [];
+    /** Offset where the current line begins, for columns. */
+    let lineStart = 0;
+    /** Where the token being scanned begins, fixed before it spans lines. */
+    let startLine = 1;
+    let column = 1;
+    /** ERROR tokens for the problems found since the last token. */
+    const errors: Token[] = [];
+    /** Brace depth inside each open `${` interpolation, innermost last. */
+    const interpolations: number[] = [];
+    /** Lines of the `///` doc comments waiting for the next token. */
+    let docLines: string[] = [];
 
     const isAtEnd = () => current >= source.length;
     const peek = (offset = 0) => source[current + offset] ?? "\0";
@@ -43,33 +84,93 @@ export function* scanTokens(source: string) {
         current++;
         return true;
     };
-    const makeToken = (type: TokenType, literal: Literal = null) =>
-        token(type, source.slice(start, current), literal, line);
+    const newLine = () => {
+        line++;
+        lineStart = current;
+    };
+    /** The source of the token being scanned so far. */
+    const scanned = (): SourceRange => ({ source, start, end: current });
+    const report = (message: string, code: DiagnosticCode) => {
+        const range = scanned();
+        errors.push(
+            token({
+                type: "ERROR",
+                lexeme: source.slice(range.start, range.end),
+                line: startLine,
+                ...range,
+                column,
+                file,
+                error: syntaxError(startLine, message, code, range),
+            })
+        );
+    };
+    /** Yields the pending ERROR tokens, before whatever is scanned next. */
+    function* flushErrors() {
+        yield* errors.splice(0);
+    }
+    const makeToken = (type: TokenType, literal: Literal = null) => {
+        const doc = docLines.length > 0 ? docLines.join("\n") : null;
+        docLines = [];
+        return token({
+            type,
+            lexeme: source.slice(start, current),
+            literal,
+            // A token spanning lines is placed where it starts, matching
+            // its column.
+            line: startLine,
+            doc,
+            start,
+            end: current,
+            column,
+            source,
+            file,
+        });
+    };
     const isDigit = (ch: string) => ch >= "0" && ch <= "9";
     const isAlpha = (ch: string) =>
         (ch >= "a" && ch <= "z") || (ch >= "A" && ch <= "Z") || ch === "_";
     const isAlphaNumeric = (ch: string) => isAlpha(ch) || isDigit(ch);
 
+    /**
+     * Scans string contents after the opening quote, or after the `}` closing
+     * an interpolation. A `${` ends the token as an INTERPOLATION part and
+     * the main loop scans the embedded expression until its matching `}`.
+     */
     function* scanString() {
-        while ((peek() !== '"' || peek(-1) === "\\") && !isAtEnd()) {
-            if (peek() === "\n") line++;
-            advance();
+        while (peek() !== '"' && !isAtEnd()) {
+            // An escape is consumed as a pair, so the quote or `$` after a
+            // backslash is never taken for a delimiter, while the one after
+            // an escaped backslash still is.
+            if (peek() === "\\") {
+                advance();
+                if (isAtEnd()) break;
+            } else if (peek() === "$" && peek(1) === "{") {
+                const rawValue = source.slice(start + 1, current);
+                const value = processEscapeSequences(rawValue);
+                current += 2; // "${"
+                interpolations.push(0);
+                // The part is still yielded so that the interpolation stays
+                // balanced, but after any bad escape in it. The parser takes
+                // the error for the whole string and skips the rest.
+                yield* flushErrors();
+                yield makeToken("INTERPOLATION", value);
+                return;
+            }
+            if (advance() === "\n") newLine();
         }
         if (isAtEnd()) {
-            errors.push(syntaxError(line, "Unterminated string."));
+            report("Unterminated string.", CODES.unterminatedString);
             return;
         }
         advance(); // closing quote
+        const errorCount = errors.length;
         const rawValue = source.slice(start + 1, current - 1);
-        const value = processEscapeSequences(rawValue, line, errors);
+        const value = processEscapeSequences(rawValue);
+        if (errors.length > errorCount) return;
         yield makeToken("STRING", value);
     }
 
-    function processEscapeSequences(
-        raw: string,
-        line: number,
-        errors: SyntaxError[]
-    ): string {
+    function processEscapeSequences(raw: string): string {
         let result = "";
         let i = 0;
 
@@ -92,12 +193,13 @@ export function* scanTokens(source: string) {
                     case "\\":
                         result += "\\";
                         break;
+                    case "$":
+                        result += "$";
+                        break;
                     default:
-                        errors.push(
-                            syntaxError(
-                                line,
-                                `Invalid escape sequence: \\${next}`
-                            )
+                        report(
+                            `Invalid escape sequence: \\${next}`,
+                            CODES.invalidEscape
                         );
                         result += next; // Include the invalid sequence as-is
                 }
@@ -111,13 +213,88 @@ export function* scanTokens(source: string) {
         return result;
     }
 
+    /** Skips a block comment after its opening `/*`. Block comments nest. */
+    const scanBlockComment = () => {
+        let depth = 1;
+        while (depth > 0 && !isAtEnd()) {
+            const ch = advance();
+            if (ch === "\n") newLine();
+            else if (ch === "/" && match("*")) depth++;
+            else if (ch === "*" && match("/")) depth--;
+        }
+        if (depth > 0) {
+            report("Unterminated block comment.", CODES.unterminatedComment);
+        }
+    };
+
+    /**
+     * Consumes a run of digits that may be split by `_` separators,
+     * reporting separators that aren't between two digits.
+     */
+    const scanDigits = (
+        isValid: (ch: string) => boolean,
+        runStart = current
+    ) => {
+        while (isValid(peek()) || peek() === "_") advance();
+        const run = source.slice(runStart, current);
+        if (run.startsWith("_") || run.endsWith("_") || run.includes("__")) {
+            const message =
+                "Numeric separators are only allowed between digits.";
+            report(message, CODES.invalidNumber);
+        }
+    };
+
     function* scanNumber() {
-        while (isDigit(peek())) advance();
+        const prefix = RADIX_PREFIXES[peek().toLowerCase()];
+        if (source[start] === "0" && prefix) {
+            advance();
+            yield* scanRadixNumber(prefix);
+            return;
+        }
+
+        const errorCount = errors.length;
+        scanDigits(isDigit, start);
         if (peek() === "." && isDigit(peek(1))) {
             advance();
-            while (isDigit(peek())) advance();
+            scanDigits(isDigit);
+        }
+        if (peek() === "e" || peek() === "E") {
+            advance();
+            if (peek() === "+" || peek() === "-") advance();
+            if (!isDigit(peek())) {
+                report("Expect digits in exponent.", CODES.invalidNumber);
+                return;
+            }
+            scanDigits(isDigit);
         }
-        yield makeToken("NUMBER", parseFloat(source.slice(start, current)));
+        if (errors.length > errorCount) return;
+
+        const text = source.slice(start, current).replaceAll("_", "");
+        yield makeToken("NUMBER", parseFloat(text));
+    }
+
+    function* scanRadixNumber(prefix: RadixPrefix) {
+        const { radix, name } = prefix;
+        if (!prefix.isDigit(peek())) {
+            const lexeme = source.slice(start, current);
+            report(
+                `Expect ${name} digits after '${lexeme}'.`,
+                CODES.invalidNumber
+            );
+            return;
+        }
+
+        const errorCount = errors.length;
+        scanDigits(prefix.isDigit);
+        if (isAlphaNumeric(peek())) {
+            const digit = peek();
+            while (isAlphaNumeric(peek())) advance();
+            report(`Invalid ${name} digit: '${digit}'`, CODES.invalidNumber);
+        }
+        if (errors.length > errorCount) return;
+
+        const digits = source.slice(start + 2, current).replaceAll("_", "");
+        yield makeToken("NUMBER", parseInt(digits, radix));
     }
 
     function* scanIdentifier() {
@@ -128,25 +305,32 @@ export function* scanTokens(source: string) {
     }
 
     while (!isAtEnd()) {
+        yield* flushErrors();
         start = current;
+        startLine = line;
+        column = start - lineStart + 1;
         const ch = advance();
 
         // Whitespace/newlines
         if (ch === " " || ch === "\r" || ch === "\t") continue;
         if (ch === "\n") {
-            line++;
+            newLine();
             continue;
         }
 
-        // Comments and slash
-        if (ch === "/") {
-            if (match("/")) {
-                while (peek() !== "\n" && !isAtEnd()) advance();
-            } else {
-                yield makeToken("SLASH");
+        // Comments. `///` starts a doc comment for the next token.
+        if (ch === "/" && match("/")) {
+            while (peek() !== "\n" && !isAtEnd()) advance();
+            const text = source.slice(start, current);
+            if (text.startsWith("///") && !text.startsWith("////")) {
+                docLines.push(text.slice(3).replace(/^ /, "").trimEnd());
             }
             continue;
         }
+        if (ch === "/" && match("*")) {
+            scanBlockComment();
+            continue;
+        }
 
         // Strings
         if (ch === '"') {
@@ -155,7 +339,75 @@ export function* scanTokens(source: string) {
         }
 
         if (ch === "'") {
-            errors.push(syntaxError(line, "Single quotes are not supported."));
+            report(
+                "Single quotes are not supported.",
+                CODES.unexpectedCharacter
+            );
+            continue;
+        }
+
+        // Braces inside an interpolation, and the brace that closes it
+        if (interpolations.length > 0 && (ch === "{" || ch === "}")) {
+            const depth = interpolations.pop() as number;
+            if (ch === "}" && depth === 0) {
+                yield* scanString();
+                continue;
+            }
+            interpolations.push(ch === "{" ? depth + 1 : depth - 1);
+        }
+
+        // Match arms and range patterns
+        if (ch === "=" && match(">")) {
+            yield makeToken("ARROW");
+            continue;
+        }
+        if (ch === "." && match(".")) {
+            yield makeToken(match(".") ? "DOT_DOT_DOT" : "DOT_DOT");
+            continue;
+        }
+
+        // Pipes
+        if (ch === "|" && match(">")) {
+            yield makeToken("PIPE_GREATER");
+            continue;
+        }
+
+        // Exponent, integer division and shifts. Integer division is
+        // spelled `~/` because `//` starts a comment.
+        if (ch === "*" && match("*")) {
+            yield makeToken("STAR_STAR");
+            continue;
+        }
+        if (ch === "~" && match("/")) {
+            yield makeToken("TILDE_SLASH");
+            continue;
+        }
+        if (ch === "<" && match("<")) {
+            yield makeToken("LESS_LESS");
+            continue;
+        }
+        if (ch === ">" && match(">")) {
+            yield makeToken("GREATER_GREATER");
+            continue;
+        }
+
+        // Increment and decrement
+        if (ch === "+" && match("+")) {
+            yield makeToken("PLUS_PLUS");
+            continue;
+        }
+        if (ch === "-" && match("-")) {
+            yield makeToken("MINUS_MINUS");
+            continue;
+        }
+
+        // Nil-coalescing and optional chaining
+        if (ch === "?" && match("?")) {
+            yield makeToken("QUESTION_QUESTION");
+            continue;
+        }
+        if (ch === "?" && match(".")) {
+            yield makeToken("QUESTION_DOT");
             continue;
         }
 
@@ -183,12 +435,16 @@ export function* scanTokens(source: string) {
             continue;
         }
 
-        errors.push(syntaxError(line, `Unexpected character: '${ch}'`));
+        report(`Unexpected character: '${ch}'`, CODES.unexpectedCharacter);
     }
 
-    if (errors.length > 0) {
-        throw new LoxError("Syntax error", errors);
+    start = current;
+    startLine = line;
+    column = start - lineStart + 1;
+    if (interpolations.length > 0) {
+        report("Unterminated string interpolation.", CODES.unterminatedString);
     }
 
-    yield token({ type: "EOF", line });
+    yield* flushErrors();
+    yield makeToken("EOF");
 }